@@ -138,6 +138,16 @@ export class ConfigService implements vscode.Disposable, FullConfigInterface {
         return await ConfigService.getGlobalConfigPath();
     }
 
+    /**
+     * Directory for viewer traffic recordings, inside the workspace config
+     * directory when there is a workspace.
+     */
+    public static async getRecordingsPath(): Promise<vscode.Uri> {
+        const recordings = vscode.Uri.joinPath(await ConfigService.getLocalConfigPath(), "recordings");
+        await vscode.workspace.fs.createDirectory(recordings);
+        return recordings;
+    }
+
     public static async getGlobalConfigPath(): Promise<vscode.Uri> {
         const that: ConfigService = ConfigService.getInstance();
         const globalStorage = that.getConfig<vscode.Uri>(ConfigKey.StorageGlobalPath) || vscode.Uri.file("/");
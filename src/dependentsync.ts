@@ -0,0 +1,228 @@
+/**
+ * @file dependentsync.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Syncs every master that uses an include file after it changes. Masters
+ * synced with the viewer are preprocessed and sent in parallel, and their
+ * compile results awaited; with a workspace scan, masters that are not
+ * synced are preprocessed to check they still build.
+ */
+import * as vscode from "vscode";
+import * as path from "path";
+import { ScriptSync, PreprocessedContent } from "./scriptsync";
+import { SynchService } from "./synchservice";
+import { ScriptLanguage } from "./shared/languageservice";
+import { normalizePath } from "./interfaces/hostinterface";
+import { logInfo, logWarning, showOutputChannel, showStatusMessage, showWarningMessage } from "./utils";
+
+// How long to wait for the viewer to report compiling a sent script
+const COMPILE_WAIT_MS = 15000;
+
+export type DependentStatus =
+    | "sent"                    // written to the viewer, no compile result
+    | "compiled"
+    | "compileFailed"
+    | "unchanged"               // the viewer copies already had this content
+    | "preprocessFailed"
+    | "overBudget"              // not sent, the output is over the budget
+    | "checked";                // not synced, preprocessed without errors
+
+export interface DependentResult {
+    master: string;
+    status: DependentStatus;
+    detail?: string;
+}
+
+const STATUS_LABELS: Record<DependentStatus, string> = {
+    sent: "sent",
+    compiled: "compiled",
+    compileFailed: "failed to compile",
+    unchanged: "unchanged",
+    preprocessFailed: "failed preprocessing",
+    overBudget: "over budget, not sent",
+    checked: "checked, not synced",
+};
+
+function languageOf(file: string): ScriptLanguage | undefined {
+    const extension = path.extname(file).toLowerCase();
+    return extension === ".lsl" ? "lsl" : extension === ".luau" ? "luau" : undefined;
+}
+
+function includesOf(preview: PreprocessedContent): string[] {
+    return (preview.includes ?? []).map((include) => include.path ?? include.file);
+}
+
+function describeErrors(preview: PreprocessedContent): string | undefined {
+    const errors = (preview.issues ?? []).filter((issue) => !issue.isWarning);
+    return errors.length > 0
+        ? errors.map((issue) => `${issue.file ? `${path.basename(issue.file)}:${issue.lineNumber}: ` : ""}${issue.message}`).join("; ")
+        : undefined;
+}
+
+/**
+ * The masters in the workspace that use the include, directly or through
+ * other includes. Files that are themselves included by another scanned
+ * file are left out unless they are synced.
+ */
+async function scanWorkspace(
+    includePath: string,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+): Promise<Map<string, PreprocessedContent>> {
+    const synchService = SynchService.getInstance();
+    const language = languageOf(includePath);
+    if (!language) {
+        return new Map();
+    }
+    const files = (await SynchService.findScriptFiles(language))
+        .map((uri) => normalizePath(uri.fsPath))
+        .filter((file) => file !== includePath);
+
+    const previews = new Map<string, PreprocessedContent>();
+    await Promise.all(files.map(async (file) => {
+        const sync = synchService.findSyncByMasterFilePath(file);
+        try {
+            previews.set(file, sync ? await sync.preview() : await ScriptSync.previewFile(vscode.Uri.file(file), language));
+        } catch (error) {
+            logWarning(`Unable to preprocess ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        progress.report({ message: `Scanned ${previews.size} of ${files.length} script(s)` });
+    }));
+
+    const included = new Set([...previews.values()].flatMap(includesOf));
+    const dependents = new Map<string, PreprocessedContent>();
+    for (const [file, preview] of previews) {
+        const synced = synchService.findSyncByMasterFilePath(file) !== undefined;
+        if (includesOf(preview).includes(includePath) && (synced || !included.has(file))) {
+            dependents.set(file, preview);
+        }
+    }
+    return dependents;
+}
+
+async function syncDependent(sync: ScriptSync): Promise<DependentResult> {
+    const master = sync.getMasterFilePath();
+    const started = Date.now();
+    const outcome = await sync.handleMasterSaved();
+    if (outcome.failed) {
+        return { master, status: "preprocessFailed", detail: "see the Problems panel" };
+    }
+    if (outcome.blocked) {
+        return { master, status: "overBudget", detail: "see the log for what each include adds" };
+    }
+    if (outcome.written.length === 0) {
+        return { master, status: "unchanged" };
+    }
+
+    const synchService = SynchService.getInstance();
+    const reporting = outcome.written.filter((id) => synchService.reportsCompilation(id));
+    if (reporting.length === 0) {
+        return { master, status: "sent" };
+    }
+    const results = [...(await sync.waitForCompilation(reporting, started, COMPILE_WAIT_MS)).values()];
+    const failures = results.filter((result) => !result.success);
+    if (failures.length > 0) {
+        const errors = failures.flatMap((result) => result.errors ?? []);
+        return {
+            master,
+            status: "compileFailed",
+            detail: errors.map((error) => `line ${error.row}: ${error.message}`).join("; ") || undefined,
+        };
+    }
+    return results.length > 0 ? { master, status: "compiled" } : { master, status: "sent", detail: "no compile result" };
+}
+
+function reportSummary(includePath: string, results: DependentResult[]): void {
+    const name = path.basename(includePath);
+    const lines = results.map((result) =>
+        `  ${vscode.workspace.asRelativePath(result.master)}: ${STATUS_LABELS[result.status]}${result.detail ? ` (${result.detail})` : ""}`,
+    );
+    logInfo(`Synced ${results.length} script(s) using ${name}:\n${lines.join("\n")}`);
+
+    const counts = new Map<DependentStatus, number>();
+    for (const result of results) {
+        counts.set(result.status, (counts.get(result.status) ?? 0) + 1);
+    }
+    const summary = [...counts].map(([status, count]) => `${count} ${STATUS_LABELS[status]}`).join(", ");
+    if (counts.has("preprocessFailed") || counts.has("compileFailed") || counts.has("overBudget")) {
+        showWarningMessage(`Scripts using ${name}: ${summary}.`, "Show Log").then((choice) => {
+            if (choice === "Show Log") {
+                showOutputChannel();
+            }
+        });
+    } else {
+        showStatusMessage(`Scripts using ${name}: ${summary}`);
+    }
+}
+
+/**
+ * Syncs the masters that use an include, with a progress notification and
+ * a summary in the log. Without a workspace scan only synced masters known
+ * to use the include are synced.
+ * @returns the outcome for each master
+ */
+export async function syncIncludeDependents(includeFile: string, scan: boolean): Promise<DependentResult[]> {
+    const includePath = normalizePath(includeFile);
+    const name = path.basename(includePath);
+    const synchService = SynchService.getInstance();
+
+    const results = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Syncing scripts using ${name}`,
+    }, async (progress): Promise<DependentResult[]> => {
+        const syncs = new Map(synchService.findSyncByIncludeFilePath(includePath)
+            .map((sync) => [sync.getMasterFilePath(), sync]));
+        const unsynced: DependentResult[] = [];
+        if (scan) {
+            for (const [file, preview] of await scanWorkspace(includePath, progress)) {
+                const sync = synchService.findSyncByMasterFilePath(file);
+                if (sync) {
+                    syncs.set(sync.getMasterFilePath(), sync);
+                } else {
+                    const errors = describeErrors(preview);
+                    unsynced.push(preview.failed || errors
+                        ? { master: file, status: "preprocessFailed", detail: errors }
+                        : { master: file, status: "checked" });
+                }
+            }
+        }
+
+        let done = 0;
+        const total = syncs.size;
+        progress.report({ message: `Sending ${total} script(s)` });
+        const synced = await Promise.all([...syncs.values()].map(async (sync) => {
+            const result = await syncDependent(sync);
+            progress.report({
+                message: `${++done} of ${total} sent`,
+                increment: total > 0 ? 100 / total : undefined,
+            });
+            return result;
+        }));
+        return [...synced, ...unsynced];
+    });
+
+    if (results.length > 0) {
+        reportSummary(includePath, results);
+    }
+    return results;
+}
+
+/**
+ * Syncs the dependents of the include in the active editor, scanning the
+ * whole workspace.
+ */
+export async function syncActiveIncludeDependents(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== "file" || !languageOf(editor.document.fileName)) {
+        showWarningMessage("Open an LSL or SLua include file to sync the scripts using it.");
+        return;
+    }
+    if (editor.document.isDirty) {
+        showWarningMessage(`Save ${path.basename(editor.document.fileName)} before syncing the scripts using it.`);
+        return;
+    }
+
+    const results = await syncIncludeDependents(editor.document.fileName, true);
+    if (results.length === 0) {
+        showStatusMessage(`No script in the workspace uses ${path.basename(editor.document.fileName)}`);
+    }
+}
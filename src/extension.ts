@@ -16,6 +16,31 @@ import {
     showErrorMessage
 } from "./utils";
 import { ConfigKey } from "./interfaces/configinterface";
+import { SessionStatusBar } from "./sessionstatusbar";
+import {
+    PREPROCESSED_SCHEME,
+    PreprocessedDocumentProvider,
+    showPreprocessedOutput,
+    gotoPreprocessedSource,
+    showScriptBudget,
+} from "./preprocessedview";
+import {
+    SyncHistory,
+    SyncHistoryTreeProvider,
+    openSyncSnapshot,
+    compareSyncSnapshots,
+    resendSyncSnapshot,
+} from "./synchistory";
+import { syncActiveIncludeDependents } from "./dependentsync";
+import { RuntimeStacks, RuntimeStackTreeProvider } from "./runtimestack";
+import {
+    ScriptConsole,
+    createScriptConsoleView,
+    filterScriptConsole,
+    highlightInScriptConsole,
+    exportScriptConsole,
+} from "./scriptconsole";
+import { StructuredLogMarkers } from "./structuredlog";
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -49,9 +74,12 @@ export function activate(context: vscode.ExtensionContext): void {
     context.subscriptions.push(
         vscode.commands.registerCommand(
             "second-life-scripting.connectWebSocket",
-            () => {
-                // TODO: Implement WebSocket connection logic
-                vscode.window.showInformationMessage("Connect WebSocket command executed");
+            async () => {
+                if (synchService.isConnected()) {
+                    showStatusMessage("Already connected to Second Life viewer");
+                    return;
+                }
+                await synchService.connect();
             }
         )
     );
@@ -60,8 +88,9 @@ export function activate(context: vscode.ExtensionContext): void {
         vscode.commands.registerCommand(
             "second-life-scripting.disconnectWebSocket",
             () => {
-                // TODO: Implement WebSocket disconnection logic
-                vscode.window.showInformationMessage("Disconnect WebSocket command executed");
+                if (!synchService.disconnect()) {
+                    showStatusMessage("Not connected to Second Life viewer");
+                }
             }
         )
     );
@@ -71,12 +100,144 @@ export function activate(context: vscode.ExtensionContext): void {
             "second-life-scripting.showWebSocketClientStatus",
             () => {
                 showOutputChannel();
-                logInfo("WebSocket status requested");
-                // TODO: Add actual status information
+                synchService.logSessionStatus();
             }
         )
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "second-life-scripting.selectEndpoint",
+            () => synchService.promptForEndpoint()
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "second-life-scripting.replayTraffic",
+            () => synchService.promptForReplay()
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "second-life-scripting.createMasterScript",
+            () => synchService.createMasterFromViewer()
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(
+            PREPROCESSED_SCHEME,
+            PreprocessedDocumentProvider.getInstance()
+        ),
+        PreprocessedDocumentProvider.getInstance()
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "second-life-scripting.showPreprocessedOutput",
+            () => showPreprocessedOutput()
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "second-life-scripting.gotoPreprocessedSource",
+            () => gotoPreprocessedSource()
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "second-life-scripting.showScriptBudget",
+            () => showScriptBudget()
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "second-life-scripting.syncIncludeDependents",
+            () => syncActiveIncludeDependents()
+        )
+    );
+
+    const syncHistory = SyncHistory.getInstance();
+    syncHistory.initialize(context.storageUri ?? context.globalStorageUri);
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider(
+            "secondLifeSyncHistory",
+            new SyncHistoryTreeProvider(syncHistory)
+        ),
+        syncHistory
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            "second-life-scripting.openSyncSnapshot",
+            (node) => openSyncSnapshot(node)
+        ),
+        vscode.commands.registerCommand(
+            "second-life-scripting.compareSyncSnapshots",
+            (node) => compareSyncSnapshots(node)
+        ),
+        vscode.commands.registerCommand(
+            "second-life-scripting.resendSyncSnapshot",
+            (node) => resendSyncSnapshot(node)
+        ),
+        vscode.commands.registerCommand(
+            "second-life-scripting.clearSyncHistory",
+            () => syncHistory.clear()
+        )
+    );
+
+    const runtimeStacks = RuntimeStacks.getInstance();
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider(
+            "secondLifeRuntimeStack",
+            new RuntimeStackTreeProvider(runtimeStacks)
+        ),
+        runtimeStacks,
+        vscode.commands.registerCommand(
+            "second-life-scripting.clearRuntimeStacks",
+            () => runtimeStacks.clear()
+        )
+    );
+
+    const scriptConsole = ScriptConsole.getInstance();
+    context.subscriptions.push(
+        createScriptConsoleView(scriptConsole),
+        scriptConsole,
+        vscode.commands.registerCommand(
+            "second-life-scripting.filterScriptConsole",
+            () => filterScriptConsole()
+        ),
+        vscode.commands.registerCommand(
+            "second-life-scripting.highlightInScriptConsole",
+            () => highlightInScriptConsole()
+        ),
+        vscode.commands.registerCommand(
+            "second-life-scripting.pauseScriptConsole",
+            () => scriptConsole.setPaused(true)
+        ),
+        vscode.commands.registerCommand(
+            "second-life-scripting.resumeScriptConsole",
+            () => scriptConsole.setPaused(false)
+        ),
+        vscode.commands.registerCommand(
+            "second-life-scripting.clearScriptConsole",
+            () => scriptConsole.clear()
+        ),
+        vscode.commands.registerCommand(
+            "second-life-scripting.exportScriptConsole",
+            () => exportScriptConsole()
+        )
+    );
+
+    const logMarkers = new StructuredLogMarkers(scriptConsole);
+    context.subscriptions.push(logMarkers);
+    configService.on(ConfigKey.DebugStructuredLogs, () => logMarkers.refresh());
+
     context.subscriptions.push(
         vscode.commands.registerCommand(
             "second-life-scripting.forceLanguageUpdate",
@@ -107,6 +268,7 @@ export function activate(context: vscode.ExtensionContext): void {
     context.subscriptions.push(configService);
     context.subscriptions.push(languageService);
     context.subscriptions.push(synchService);
+    context.subscriptions.push(new SessionStatusBar(synchService));
 }
 
 // This method is called when your extension is deactivated
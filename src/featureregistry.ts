@@ -0,0 +1,111 @@
+/**
+ * @file featureregistry.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Feature flags exchanged during the session handshake. Each subsystem
+ * declares the capability it implements and the viewer features it needs;
+ * a feature is only active on a session when both sides have it.
+ */
+
+export type FeatureFlags = { [feature: string]: boolean };
+
+export interface FeatureDeclaration {
+    feature: string;            // flag advertised in the handshake response
+    description: string;
+    requires?: string[];        // viewer flags the feature needs, defaults to [feature]
+    isEnabled?: () => boolean;  // local switch, enabled when omitted
+}
+
+/** Why a declared feature is not active on a session. */
+export interface UnavailableFeature {
+    feature: string;
+    reason: string;
+}
+
+export class FeatureRegistry {
+    private static instance: FeatureRegistry;
+    private declarations: Map<string, FeatureDeclaration> = new Map();
+
+    public static getInstance(): FeatureRegistry {
+        if (!FeatureRegistry.instance) {
+            FeatureRegistry.instance = new FeatureRegistry();
+        }
+        return FeatureRegistry.instance;
+    }
+
+    /**
+     * Declares a feature. The returned disposable removes the declaration,
+     * which affects sessions that handshake afterwards.
+     * @throws Error if the feature is already declared
+     */
+    public register(declaration: FeatureDeclaration): { dispose(): void } {
+        if (this.declarations.has(declaration.feature)) {
+            throw new Error(`Feature ${declaration.feature} is already registered`);
+        }
+        this.declarations.set(declaration.feature, declaration);
+        return {
+            dispose: (): void => {
+                if (this.declarations.get(declaration.feature) === declaration) {
+                    this.declarations.delete(declaration.feature);
+                }
+            },
+        };
+    }
+
+    public getDeclarations(): FeatureDeclaration[] {
+        return [...this.declarations.values()];
+    }
+
+    public isEnabled(feature: string): boolean {
+        const declaration = this.declarations.get(feature);
+        return !!declaration && (declaration.isEnabled?.() ?? true);
+    }
+
+    /**
+     * The features for the handshake response. Only declared features are
+     * listed, a feature nothing implements is never advertised.
+     */
+    public advertise(): FeatureFlags {
+        const flags: FeatureFlags = {};
+        for (const feature of this.declarations.keys()) {
+            flags[feature] = this.isEnabled(feature);
+        }
+        return flags;
+    }
+
+    /**
+     * The features active with a viewer: enabled here, with every required
+     * viewer flag set. Flags the viewer sends that nothing declares are ignored.
+     */
+    public negotiate(viewerFeatures: FeatureFlags | undefined): string[] {
+        return this.getDeclarations()
+            .filter((declaration) => this.explain(declaration, viewerFeatures) === undefined)
+            .map((declaration) => declaration.feature);
+    }
+
+    /**
+     * The declared features that are not active with a viewer, and why.
+     */
+    public unavailable(viewerFeatures: FeatureFlags | undefined): UnavailableFeature[] {
+        const result: UnavailableFeature[] = [];
+        for (const declaration of this.declarations.values()) {
+            const reason = this.explain(declaration, viewerFeatures);
+            if (reason) {
+                result.push({ feature: declaration.feature, reason });
+            }
+        }
+        return result;
+    }
+
+    private explain(declaration: FeatureDeclaration, viewerFeatures: FeatureFlags | undefined): string | undefined {
+        if (!this.isEnabled(declaration.feature)) {
+            return "disabled";
+        }
+        const missing = (declaration.requires ?? [declaration.feature])
+            .filter((flag) => viewerFeatures?.[flag] !== true);
+        if (missing.length > 0) {
+            return `viewer does not support ${missing.join(", ")}`;
+        }
+        return undefined;
+    }
+}
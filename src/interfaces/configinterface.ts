@@ -22,13 +22,28 @@ export enum ConfigKey {
   NetworkDisconnectDelayMs = 'network.disconnectDelayMs',
   NetworkDisposeDelayMs = 'network.disposeDelayMs',
   NetworkWebsocketPort = 'network.websocketPort',
+  NetworkEndpoints = 'network.endpoints',
+  NetworkAutoReconnect = 'network.autoReconnect',
+  NetworkMaxReconnectAttempts = 'network.maxReconnectAttempts',
+  NetworkRecordTraffic = 'network.recordTraffic',
+  NetworkRequestTimeouts = 'network.requestTimeouts',
+  FeaturesDisabled = 'features.disabled',
   Preprocessor = 'preprocessor',
   PreprocessorEnable = 'preprocessor.enable',
   PreprocessorOptions = 'preprocessor.options',
   PreprocessorIncludePaths = 'preprocessor.includePaths',
   PreprocessorMaxIncludeDepth = 'preprocessor.maxIncludeDepth',
+  PreprocessorCompactOutput = 'preprocessor.compactOutput',
+  PreprocessorSourceMap = 'preprocessor.sourceMap',
   LastSyntaxID = 'syntax.lastID',
   CompareHashBeforeSync = 'sync.compareHashBeforeSync',
+  SyncLiveOnType = 'sync.liveOnType',
+  SyncLiveDelayMs = 'sync.liveDelayMs',
+  SyncHistoryLimit = 'sync.historyLimit',
+  SyncIncludeDependents = 'sync.includeDependents',
+  BudgetMode = 'budget.mode',
+  BudgetLimits = 'budget.limits',
+  DebugStructuredLogs = 'debug.structuredLogs',
 }
 
 /** Scope target for configuration updates. */
@@ -0,0 +1,272 @@
+/**
+ * @file preprocessedview.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Read-only documents showing the preprocessor output for a master file,
+ * with commands to move between output lines and the source lines they
+ * came from. Output lines are numbered as the viewer numbers them.
+ */
+import * as vscode from "vscode";
+import * as path from "path";
+import { ScriptSync, PreprocessedContent } from "./scriptsync";
+import { SynchService } from "./synchservice";
+import { LineMapper, LineMapping } from "./shared/linemapper";
+import { ScriptLanguage } from "./shared/languageservice";
+import { normalizePath } from "./interfaces/hostinterface";
+import { describeBudgetProblem, formatBudgetReport } from "./shared/scriptbudget";
+import { logInfo, showOutputChannel, showInfoMessage, showWarningMessage } from "./utils";
+
+export const PREPROCESSED_SCHEME = "sl-preprocessed";
+const PREPROCESSED_SUFFIX = ".preprocessed";
+
+/**
+ * The preprocessed document for a master, `main.lsl` showing as
+ * `main.preprocessed.lsl` so that it keeps the language of the master.
+ */
+export function preprocessedUri(masterUri: vscode.Uri): vscode.Uri {
+    const extension = path.posix.extname(masterUri.path);
+    const base = masterUri.path.slice(0, masterUri.path.length - extension.length);
+    return vscode.Uri.from({ scheme: PREPROCESSED_SCHEME, path: `${base}${PREPROCESSED_SUFFIX}${extension}` });
+}
+
+export function masterUriOf(uri: vscode.Uri): vscode.Uri {
+    const extension = path.posix.extname(uri.path);
+    const base = uri.path.slice(0, uri.path.length - extension.length);
+    const masterPath = base.endsWith(PREPROCESSED_SUFFIX)
+        ? base.slice(0, base.length - PREPROCESSED_SUFFIX.length) + extension
+        : uri.path;
+    return vscode.Uri.file(vscode.Uri.from({ scheme: "file", path: masterPath }).fsPath);
+}
+
+function languageOf(uri: vscode.Uri): ScriptLanguage | undefined {
+    const extension = path.extname(uri.fsPath).toLowerCase();
+    return extension === ".lsl" ? "lsl" : extension === ".luau" ? "luau" : undefined;
+}
+
+export class PreprocessedDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private static instance: PreprocessedDocumentProvider;
+    private mappings: Map<string, LineMapping[]> = new Map();
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+    private constructor() {
+        // Saving a master or an include changes the output of every open view
+        this.disposables.push(vscode.workspace.onDidSaveTextDocument(() => this.refreshAll()));
+        this.disposables.push(vscode.workspace.onDidCloseTextDocument((document) => {
+            this.mappings.delete(document.uri.toString());
+        }));
+    }
+
+    public static getInstance(): PreprocessedDocumentProvider {
+        if (!PreprocessedDocumentProvider.instance) {
+            PreprocessedDocumentProvider.instance = new PreprocessedDocumentProvider();
+        }
+        return PreprocessedDocumentProvider.instance;
+    }
+
+    dispose(): void {
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const masterUri = masterUriOf(uri);
+        const language = languageOf(masterUri);
+        if (!language) {
+            return `// ${path.basename(masterUri.fsPath)} is not a script file`;
+        }
+
+        let preview: PreprocessedContent;
+        try {
+            preview = await PreprocessedDocumentProvider.preprocess(masterUri, language);
+        } catch (error) {
+            return `// Unable to preprocess ${masterUri.fsPath}: ${error instanceof Error ? error.message : String(error)}`;
+        }
+
+        this.mappings.set(uri.toString(), preview.lineMappings ?? []);
+        const errors = (preview.issues ?? []).filter((issue) => !issue.isWarning);
+        if (preview.failed || errors.length > 0) {
+            showWarningMessage(
+                `Preprocessing ${path.basename(masterUri.fsPath)} reported ${errors.length} error(s), the output shown may not match the viewer.`,
+            );
+        }
+        return preview.content;
+    }
+
+    /**
+     * The output of a synced master is taken from its sync, so that agent
+     * macros expand as they do for the viewer.
+     */
+    public static async preprocess(masterUri: vscode.Uri, language: ScriptLanguage): Promise<PreprocessedContent> {
+        const sync = SynchService.getInstance().findSyncByMasterFilePath(masterUri.fsPath);
+        if (sync) {
+            return sync.preview();
+        }
+
+        return ScriptSync.previewFile(masterUri, language);
+    }
+
+    public refreshAll(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.uri.scheme === PREPROCESSED_SCHEME) {
+                this._onDidChange.fire(document.uri);
+            }
+        }
+    }
+
+    /**
+     * Maps an output line to its source; lines the preprocessor did not
+     * map belong to the master itself.
+     */
+    public toSource(uri: vscode.Uri, processedLine: number): { file: string; line: number } {
+        const mapped = LineMapper.convertAbsoluteLineToSource(this.mappings.get(uri.toString()) ?? [], processedLine);
+        return mapped
+            ? { file: mapped.source, line: mapped.line }
+            : { file: masterUriOf(uri).fsPath, line: processedLine };
+    }
+
+    /**
+     * The output lines produced by a source line. Mappings only mark where
+     * the output switches context, so lines between two marks are found by
+     * mapping each output line back.
+     */
+    public toProcessed(uri: vscode.Uri, lineCount: number, sourceFile: string, sourceLine: number): number[] {
+        const mappings = this.mappings.get(uri.toString()) ?? [];
+        const file = normalizePath(sourceFile);
+        if (mappings.length === 0) {
+            return file === normalizePath(masterUriOf(uri).fsPath) ? [sourceLine] : [];
+        }
+        const marked = LineMapper.findProcessedLines(mappings, file, sourceLine);
+        if (marked.length > 0) {
+            return marked;
+        }
+        const lines: number[] = [];
+        for (let line = 1; line <= lineCount; line++) {
+            const source = LineMapper.convertAbsoluteLineToSource(mappings, line);
+            if (source?.source === file && source.line === sourceLine) {
+                lines.push(line);
+            }
+        }
+        return lines;
+    }
+}
+
+//====================================================================
+//#region Commands
+async function revealLine(uri: vscode.Uri, line: number, column: vscode.ViewColumn = vscode.ViewColumn.Active): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const editor = await vscode.window.showTextDocument(document, { viewColumn: column, preview: false });
+    const target = Math.min(Math.max(line - 1, 0), document.lineCount - 1);
+    const position = new vscode.Position(target, 0);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+/**
+ * The master whose output a script editor belongs to: the master of the
+ * sync using it as master, viewer copy or include, or the script itself.
+ */
+function masterUriFor(document: vscode.TextDocument): vscode.Uri {
+    const synchService = SynchService.getInstance();
+    const sync = synchService.findSyncByMasterFilePath(document.fileName) ??
+        synchService.findSyncByTempFilePath(document.fileName) ??
+        synchService.findSyncByIncludeFilePath(normalizePath(document.fileName))[0];
+    return sync ? sync.getMasterDocument().uri : document.uri;
+}
+
+/**
+ * Opens the preprocessed output of the master in the active editor, or of
+ * the synced master using the active include, at the cursor line.
+ */
+export async function showPreprocessedOutput(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== "file" || !languageOf(editor.document.uri)) {
+        showWarningMessage("Open an LSL or SLua script to see its preprocessed output.");
+        return;
+    }
+
+    const sourceFile = editor.document.uri.fsPath;
+    const uri = preprocessedUri(masterUriFor(editor.document));
+    const provider = PreprocessedDocumentProvider.getInstance();
+    const open = vscode.workspace.textDocuments.some((document) => document.uri.toString() === uri.toString());
+    if (open) {
+        provider.refreshAll();
+    }
+    const document = await vscode.workspace.openTextDocument(uri);
+
+    const lines = provider.toProcessed(uri, document.lineCount, sourceFile, editor.selection.active.line + 1);
+    await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: false });
+    if (lines.length > 0) {
+        await revealLine(uri, lines[0]);
+    }
+}
+
+/**
+ * Jumps from an output line to the source line it came from. In the
+ * preprocessed view the cursor line is used, anywhere else the line
+ * number reported by the viewer is asked for.
+ */
+export async function gotoPreprocessedSource(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    let uri: vscode.Uri;
+    let processedLine: number;
+
+    if (editor?.document.uri.scheme === PREPROCESSED_SCHEME) {
+        uri = editor.document.uri;
+        processedLine = editor.selection.active.line + 1;
+    } else if (editor && languageOf(editor.document.uri)) {
+        const input = await vscode.window.showInputBox({
+            prompt: `Line number reported by the viewer for ${path.basename(editor.document.fileName)}`,
+            validateInput: (value) => /^\s*\d+\s*$/.test(value) && parseInt(value) > 0 ? undefined : "Enter a line number",
+        });
+        if (!input) {
+            return;
+        }
+        uri = preprocessedUri(masterUriFor(editor.document));
+        // Make sure the mappings for the output are known
+        await vscode.workspace.openTextDocument(uri);
+        processedLine = parseInt(input);
+    } else {
+        showWarningMessage("Open an LSL or SLua script or its preprocessed output first.");
+        return;
+    }
+
+    const source = PreprocessedDocumentProvider.getInstance().toSource(uri, processedLine);
+    await revealLine(vscode.Uri.file(source.file), source.line, vscode.ViewColumn.One);
+}
+
+/**
+ * Writes the size of the preprocessed output of the active script, and
+ * what each include adds to it, to the output log.
+ */
+export async function showScriptBudget(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const language = editor ? languageOf(editor.document.uri) : undefined;
+    if (!editor || !language) {
+        showWarningMessage("Open an LSL or SLua script to check its budget.");
+        return;
+    }
+
+    const masterUri = masterUriFor(editor.document);
+    const name = path.basename(masterUri.fsPath);
+    const preview = await PreprocessedDocumentProvider.preprocess(masterUri, language);
+    const report = ScriptSync.analyzeBudget(preview.content, language, masterUri.fsPath, preview.compacted ? preview.lineMappings : undefined);
+    const nameOf = (file?: string): string => ScriptSync.describeOrigin(masterUri.fsPath, file);
+
+    logInfo([`Budget of ${name}:`, ...formatBudgetReport(report, nameOf), ...report.problems.map(describeBudgetProblem)].join("\n"));
+    showOutputChannel();
+    if (report.problems.length > 0) {
+        showWarningMessage(`${name}: ${report.problems.map(describeBudgetProblem).join("; ")}.`);
+    } else {
+        const limits = ScriptSync.getBudgetLimits(language);
+        showInfoMessage(
+            `${name} uses ${report.sourceBytes} of ${limits.sourceBytes} source bytes and an estimated ${report.estimatedMemory} of ${limits.memoryBytes} bytes of memory.`,
+        );
+    }
+}
+
+//#endregion
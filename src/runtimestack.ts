@@ -0,0 +1,119 @@
+/**
+ * @file runtimestack.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Keeps the stack traces of recent runtime errors, with each frame mapped
+ * back to its source, and shows them in a tree where a frame opens the
+ * line it was at.
+ */
+import * as vscode from "vscode";
+import * as path from "path";
+import { MappedStackFrame, describeStackFrame } from "./shared/stacktrace";
+
+const MAX_STACKS = 20;
+
+export interface RuntimeStack {
+    timestamp: number;
+    objectName: string;
+    objectId: string;
+    error: string;
+    master: string;
+    frames: MappedStackFrame[];
+}
+
+export class RuntimeStacks implements vscode.Disposable {
+    private static instance: RuntimeStacks;
+    private stacks: RuntimeStack[] = [];    // newest first
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    public static getInstance(): RuntimeStacks {
+        if (!RuntimeStacks.instance) {
+            RuntimeStacks.instance = new RuntimeStacks();
+        }
+        return RuntimeStacks.instance;
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    public getStacks(): RuntimeStack[] {
+        return this.stacks;
+    }
+
+    public add(stack: RuntimeStack): void {
+        this.stacks = [stack, ...this.stacks].slice(0, MAX_STACKS);
+        this._onDidChange.fire();
+    }
+
+    public clear(): void {
+        this.stacks = [];
+        this._onDidChange.fire();
+    }
+}
+
+//====================================================================
+//#region Tree view
+export type RuntimeStackNode =
+    | { kind: "error"; stack: RuntimeStack }
+    | { kind: "frame"; frame: MappedStackFrame };
+
+export class RuntimeStackTreeProvider implements vscode.TreeDataProvider<RuntimeStackNode> {
+    private stacks: RuntimeStacks;
+
+    public readonly onDidChangeTreeData: vscode.Event<void>;
+
+    public constructor(stacks: RuntimeStacks) {
+        this.stacks = stacks;
+        this.onDidChangeTreeData = stacks.onDidChange;
+    }
+
+    public getChildren(node?: RuntimeStackNode): RuntimeStackNode[] {
+        if (!node) {
+            return this.stacks.getStacks().map((stack) => ({ kind: "error", stack }));
+        }
+        if (node.kind === "error") {
+            return node.stack.frames.map((frame) => ({ kind: "frame", frame }));
+        }
+        return [];
+    }
+
+    public getTreeItem(node: RuntimeStackNode): vscode.TreeItem {
+        if (node.kind === "error") {
+            const stack = node.stack;
+            const item = new vscode.TreeItem(
+                stack.error,
+                stack.frames.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None,
+            );
+            item.description = `${stack.objectName} · ${new Date(stack.timestamp).toLocaleTimeString()}`;
+            item.tooltip = [
+                stack.error,
+                `${path.basename(stack.master)} on ${stack.objectName} (${stack.objectId})`,
+            ].join("\n");
+            item.iconPath = new vscode.ThemeIcon("error");
+            item.contextValue = "runtimeError";
+            return item;
+        }
+
+        const frame = node.frame;
+        const item = new vscode.TreeItem(describeStackFrame(frame, (file) => path.basename(file)), vscode.TreeItemCollapsibleState.None);
+        item.tooltip = frame.source ? `${frame.source}:${frame.originalLine}\nReported as ${frame.text}` : frame.text;
+        item.contextValue = "runtimeStackFrame";
+        if (frame.source && frame.originalLine !== undefined) {
+            const line = Math.max(0, frame.originalLine - 1);
+            item.description = vscode.workspace.asRelativePath(path.dirname(frame.source));
+            item.iconPath = new vscode.ThemeIcon("debug-stackframe");
+            item.command = {
+                command: "vscode.open",
+                title: "Open Frame",
+                arguments: [vscode.Uri.file(frame.source), { selection: new vscode.Range(line, 0, line, 0) }],
+            };
+        } else {
+            item.iconPath = new vscode.ThemeIcon("debug-stackframe-dot");
+        }
+        return item;
+    }
+}
+//#endregion
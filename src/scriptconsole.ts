@@ -0,0 +1,327 @@
+/**
+ * @file scriptconsole.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * The Script Console: a tree of the runtime.debug messages from scripts,
+ * grouped by object and script, that can be filtered, highlighted, paused,
+ * cleared and exported to a file.
+ */
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+    ConsoleMessage,
+    ConsoleObjectGroup,
+    ConsoleScriptGroup,
+    compileConsolePattern,
+    findHighlights,
+    formatConsoleExport,
+    groupConsoleMessages,
+    matchesConsolePattern,
+} from "./shared/scriptconsole";
+import { StructuredLogEntry, StructuredLogLevel } from "./shared/structuredlog";
+import { logInfo, showInfoMessage, showWarningMessage } from "./utils";
+
+const MAX_MESSAGES = 1000;
+const PAUSED_CONTEXT = "secondLifeScriptConsole.paused";
+
+export class ScriptConsole implements vscode.Disposable {
+    private static instance: ScriptConsole;
+    private messages: ConsoleMessage[] = [];
+    private pending: ConsoleMessage[] = [];     // received while paused
+    private paused = false;
+    private filter?: { text: string; pattern: RegExp };
+    private highlights: { text: string; pattern: RegExp }[] = [];
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    public static getInstance(): ScriptConsole {
+        if (!ScriptConsole.instance) {
+            ScriptConsole.instance = new ScriptConsole();
+        }
+        return ScriptConsole.instance;
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    public add(message: ConsoleMessage): void {
+        if (this.paused) {
+            this.pending = [...this.pending, message].slice(-MAX_MESSAGES);
+            this._onDidChange.fire();
+            return;
+        }
+        this.messages = [...this.messages, message].slice(-MAX_MESSAGES);
+        this._onDidChange.fire();
+    }
+
+    public clear(): void {
+        this.messages = [];
+        this.pending = [];
+        this._onDidChange.fire();
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    public getPendingCount(): number {
+        return this.pending.length;
+    }
+
+    /**
+     * Stops showing new messages until resumed. Messages received in the
+     * meantime are kept and shown on resume.
+     */
+    public setPaused(paused: boolean): void {
+        if (this.paused === paused) {
+            return;
+        }
+        this.paused = paused;
+        if (!paused) {
+            this.messages = [...this.messages, ...this.pending].slice(-MAX_MESSAGES);
+            this.pending = [];
+        }
+        void vscode.commands.executeCommand("setContext", PAUSED_CONTEXT, paused);
+        this._onDidChange.fire();
+    }
+
+    public getFilter(): string | undefined {
+        return this.filter?.text;
+    }
+
+    /**
+     * Shows only messages matching a pattern, or all when it is empty.
+     * @throws SyntaxError when the pattern is not a valid regular expression
+     */
+    public setFilter(text: string): void {
+        this.filter = text.length > 0 ? { text, pattern: compileConsolePattern(text) } : undefined;
+        this._onDidChange.fire();
+    }
+
+    public getHighlights(): string[] {
+        return this.highlights.map((highlight) => highlight.text);
+    }
+
+    /**
+     * @throws SyntaxError when the pattern is not a valid regular expression
+     */
+    public addHighlight(text: string): void {
+        this.highlights = [...this.highlights, { text, pattern: compileConsolePattern(text) }];
+        this._onDidChange.fire();
+    }
+
+    public clearHighlights(): void {
+        this.highlights = [];
+        this._onDidChange.fire();
+    }
+
+    public highlightsOf(text: string): [number, number][] {
+        return findHighlights(text, this.highlights.map((highlight) => highlight.pattern));
+    }
+
+    /** Structured log entries traced to a source, oldest first, whatever the filter. */
+    public getLogEntries(): ConsoleMessage[] {
+        return this.messages.filter((message) => message.log && message.source);
+    }
+
+    /** The messages shown, oldest first. */
+    public getMessages(): ConsoleMessage[] {
+        const filter = this.filter;
+        return filter ? this.messages.filter((message) => matchesConsolePattern(message, filter.pattern)) : this.messages;
+    }
+}
+
+//====================================================================
+//#region Tree view
+export function logLevelIcon(level: StructuredLogLevel): vscode.ThemeIcon {
+    switch (level) {
+        case "error":
+            return new vscode.ThemeIcon("error", new vscode.ThemeColor("problemsErrorIcon.foreground"));
+        case "warn":
+            return new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"));
+        case "info":
+            return new vscode.ThemeIcon("info", new vscode.ThemeColor("problemsInfoIcon.foreground"));
+        default:
+            return new vscode.ThemeIcon("debug-breakpoint-log");
+    }
+}
+
+export type ScriptConsoleNode =
+    | { kind: "object"; object: ConsoleObjectGroup }
+    | { kind: "script"; object: ConsoleObjectGroup; script: ConsoleScriptGroup }
+    | { kind: "message"; message: ConsoleMessage };
+
+export class ScriptConsoleTreeProvider implements vscode.TreeDataProvider<ScriptConsoleNode> {
+    private scriptConsole: ScriptConsole;
+
+    public readonly onDidChangeTreeData: vscode.Event<void>;
+
+    public constructor(scriptConsole: ScriptConsole) {
+        this.scriptConsole = scriptConsole;
+        this.onDidChangeTreeData = scriptConsole.onDidChange;
+    }
+
+    public getChildren(node?: ScriptConsoleNode): ScriptConsoleNode[] {
+        if (!node) {
+            return groupConsoleMessages(this.scriptConsole.getMessages()).map((object) => ({ kind: "object", object }));
+        }
+        if (node.kind === "object") {
+            return node.object.scripts.map((script) => ({ kind: "script", object: node.object, script }));
+        }
+        if (node.kind === "script") {
+            return node.script.messages.map((message) => ({ kind: "message", message }));
+        }
+        return [];
+    }
+
+    public getTreeItem(node: ScriptConsoleNode): vscode.TreeItem {
+        if (node.kind === "object") {
+            const item = new vscode.TreeItem(node.object.objectName, vscode.TreeItemCollapsibleState.Expanded);
+            // Ids keep groups expanded or collapsed as messages arrive
+            item.id = `object:${node.object.objectId}`;
+            item.description = node.object.objectId;
+            item.iconPath = new vscode.ThemeIcon("package");
+            item.contextValue = "scriptConsoleObject";
+            return item;
+        }
+
+        if (node.kind === "script") {
+            const item = new vscode.TreeItem(node.script.script ?? node.script.scriptId, vscode.TreeItemCollapsibleState.Expanded);
+            item.id = `script:${node.object.objectId}:${node.script.scriptId}`;
+            item.description = `${node.script.messages.length} message(s)`;
+            item.tooltip = `Script ${node.script.scriptId}`;
+            item.iconPath = new vscode.ThemeIcon("file-code");
+            item.contextValue = "scriptConsoleScript";
+            return item;
+        }
+
+        const message = node.message;
+        if (message.log) {
+            return this.getLogItem(message, message.log);
+        }
+        const highlights = this.scriptConsole.highlightsOf(message.message);
+        const item = new vscode.TreeItem({ label: message.message, highlights }, vscode.TreeItemCollapsibleState.None);
+        item.description = new Date(message.timestamp).toLocaleTimeString();
+        item.tooltip = message.message;
+        item.iconPath = highlights.length > 0
+            ? new vscode.ThemeIcon("circle-filled", new vscode.ThemeColor("charts.yellow"))
+            : new vscode.ThemeIcon("debug-console");
+        item.contextValue = "scriptConsoleMessage";
+        return item;
+    }
+
+    // A structured log entry, which opens the line it was sent from
+    private getLogItem(message: ConsoleMessage, log: StructuredLogEntry): vscode.TreeItem {
+        const label = log.tag ? `[${log.tag}] ${log.payload}` : log.payload;
+        const highlights = this.scriptConsole.highlightsOf(label);
+        const item = new vscode.TreeItem({ label, highlights }, vscode.TreeItemCollapsibleState.None);
+        item.description = `${path.basename(message.source ?? log.file)}:${log.line} · ${new Date(message.timestamp).toLocaleTimeString()}`;
+        item.tooltip = [`${log.level.toUpperCase()}${log.tag ? ` ${log.tag}` : ""}: ${log.payload}`, `${message.source ?? log.file}:${log.line}`].join("\n");
+        item.iconPath = logLevelIcon(log.level);
+        item.contextValue = "scriptConsoleLogEntry";
+        if (message.source) {
+            const line = Math.max(0, log.line - 1);
+            item.command = {
+                command: "vscode.open",
+                title: "Open Source Line",
+                arguments: [vscode.Uri.file(message.source), { selection: new vscode.Range(line, 0, line, 0) }],
+            };
+        }
+        return item;
+    }
+}
+
+/**
+ * Creates the tree view, with the filter and whether the console is
+ * paused shown next to its title.
+ */
+export function createScriptConsoleView(scriptConsole: ScriptConsole): vscode.Disposable {
+    const view = vscode.window.createTreeView("secondLifeScriptConsole", {
+        treeDataProvider: new ScriptConsoleTreeProvider(scriptConsole),
+    });
+    const describe = (): void => {
+        const filter = scriptConsole.getFilter();
+        const parts = [
+            ...(filter ? [`filter: ${filter}`] : []),
+            ...(scriptConsole.isPaused() ? [`paused, ${scriptConsole.getPendingCount()} new`] : []),
+        ];
+        view.description = parts.length > 0 ? parts.join(" · ") : undefined;
+    };
+    describe();
+    return vscode.Disposable.from(view, scriptConsole.onDidChange(describe));
+}
+//#endregion
+
+//====================================================================
+//#region Commands
+const PATTERN_HINT = "Text matches regardless of case, /pattern/flags is a regular expression";
+
+function patternError(value: string): string | undefined {
+    try {
+        compileConsolePattern(value);
+        return undefined;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+export async function filterScriptConsole(): Promise<void> {
+    const scriptConsole = ScriptConsole.getInstance();
+    const text = await vscode.window.showInputBox({
+        prompt: `Show only messages matching. ${PATTERN_HINT}; leave empty to show all.`,
+        value: scriptConsole.getFilter() ?? "",
+        validateInput: (value) => value.length > 0 ? patternError(value) : undefined,
+    });
+    if (text !== undefined) {
+        scriptConsole.setFilter(text);
+    }
+}
+
+export async function highlightInScriptConsole(): Promise<void> {
+    const scriptConsole = ScriptConsole.getInstance();
+    const current = scriptConsole.getHighlights();
+    const text = await vscode.window.showInputBox({
+        prompt: `Highlight messages matching. ${PATTERN_HINT}; leave empty to clear the highlights.`,
+        placeHolder: current.length > 0 ? `Highlighting ${current.join(", ")}` : undefined,
+        validateInput: (value) => value.length > 0 ? patternError(value) : undefined,
+    });
+    if (text === undefined) {
+        return;
+    }
+    if (text.length === 0) {
+        scriptConsole.clearHighlights();
+    } else {
+        scriptConsole.addHighlight(text);
+    }
+}
+
+/**
+ * Writes the messages shown, after filtering, to a file.
+ */
+export async function exportScriptConsole(): Promise<void> {
+    const messages = ScriptConsole.getInstance().getMessages();
+    if (messages.length === 0) {
+        showInfoMessage("The script console has no messages to export.");
+        return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, "script-console.log") : undefined,
+        filters: { "Log files": ["log", "txt"] },
+        saveLabel: "Export",
+    });
+    if (!target) {
+        return;
+    }
+
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(formatConsoleExport(messages), "utf8"));
+        logInfo(`Exported ${messages.length} script console message(s) to ${target.fsPath}`);
+    } catch (error) {
+        showWarningMessage(`Could not export the script console: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+//#endregion
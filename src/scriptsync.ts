@@ -13,7 +13,7 @@ import {
     PreprocessorError
 } from "./shared/lexingpreprocessor";
 import { MacroProcessor } from './shared/macroprocessor';
-import { LineMapping, LineMapper } from "./shared/linemapper";
+import { LineMapping, LineMapper, MacroReference } from "./shared/linemapper";
 import {
     showStatusMessage,
     createFileWatcher,
@@ -21,21 +21,64 @@ import {
     errorLevelToSeverity,
     VSCodeHost,
     logInfo,
-    logError
+    logWarning,
+    logError,
+    showWarningMessage,
 } from "./utils";
 import { ScriptLanguage } from "./shared/languageservice";
 import { CompilationResult, RuntimeDebug, RuntimeError } from "./viewereditwsclient";
-import { normalizePath } from "./interfaces/hostinterface";
-import { SynchService } from "./synchservice";
+import { NormalizedPath, normalizePath } from "./interfaces/hostinterface";
+import { SynchService, ScriptAgent } from "./synchservice";
 import { IncludeInfo } from "./shared/parser";
+import { mapChangesToSources } from "./shared/reversesync";
+import { reviewViewerChanges } from "./viewerchanges";
+import { SyncHistory } from "./synchistory";
+import { PersistedSync } from "./shared/syncstate";
+import { LINE_MAP_SIDECAR_EXTENSION, parseLineMapSidecar, serializeLineMapSidecar } from "./shared/outputcompactor";
+import { SOURCE_MAP_EXTENSION, parseSourceMap, serializeSourceMap } from "./shared/sourcemap";
+import { describeStackFrame, symbolicateStack } from "./shared/stacktrace";
+import { RuntimeStacks } from "./runtimestack";
+import {
+    BudgetLimits,
+    BudgetMode,
+    BudgetReport,
+    DEFAULT_BUDGET_LIMITS,
+    analyzeBudget,
+    describeBudgetProblem,
+    formatBudgetReport,
+} from "./shared/scriptbudget";
 import { sha256 } from "js-sha256";
 
 //====================================================================
+/** The outcome of one preprocessor run over the master content. */
+export interface PreprocessedContent {
+    content: string;
+    failed: boolean;
+    lineMappings?: LineMapping[];
+    includes?: IncludeInfo[];
+    issues?: PreprocessorError[];
+    compacted?: boolean;        // lineMappings are the only record of where lines came from
+}
+
+/**
+ * What a sync of the master did: the scripts written, whether
+ * preprocessing failed and whether the output was held back for being
+ * over budget.
+ */
+export interface SyncOutcome {
+    failed: boolean;
+    blocked?: boolean;
+    written: string[];
+}
+
 interface TrackedDocument {
   id: string;
   viewerDocument: vscode.TextDocument;
   watcher?: vscode.FileSystemWatcher;
   hash?: string;
+  content?: string;             // last content written to, or agreed with, the viewer copy
+  reviewing?: boolean;          // viewer changes are being reviewed
+  compacted?: boolean;          // written without @line directives, mapped through its line map
 }
 
 export class ScriptSync implements vscode.Disposable {
@@ -50,8 +93,18 @@ export class ScriptSync implements vscode.Disposable {
     private diagnosticSources: Set<string> = new Set();
     private lineMappings?: LineMapping[];
     private config: ConfigService;
+    // Agent the content is currently being preprocessed for
+    private currentAgent?: ScriptAgent;
 
     private includedFiles : IncludeInfo[] = [];
+    private syncQueue: Promise<void> = Promise.resolve();
+    private _onDidWrite = new vscode.EventEmitter<void>();
+    // Last compile result of each script, and the waits for new ones
+    private compilations: Map<string, { result: CompilationResult; at: number }> = new Map();
+    private compilationWaiters: Set<() => void> = new Set();
+
+    /** Fires after content has been written to viewer copies. */
+    public readonly onDidWrite: vscode.Event<void> = this._onDidWrite.event;
 
     //====================================================================
     public constructor(
@@ -93,17 +146,25 @@ export class ScriptSync implements vscode.Disposable {
 
     //====================================================================
     //#region subscription management
-    public subscribe(id: string, viewerDocument: vscode.TextDocument): boolean {
+    /**
+     * Starts tracking a viewer copy. `hash` is the hash of the content last
+     * written to it, when restoring a sync from an earlier session.
+     */
+    public subscribe(id: string, viewerDocument: vscode.TextDocument, hash?: string): boolean {
         if (this.isTrackingId(id) || this.isTrackingFile(viewerDocument.fileName)) {
             return false;
         }
 
-        let mapping: TrackedDocument = { id, viewerDocument };
+        let mapping: TrackedDocument = { id, viewerDocument, hash };
 
+        mapping.content = viewerDocument.getText();
         mapping.watcher = createFileWatcher(viewerDocument);
         mapping.watcher.onDidDelete((e) => {
             this.unsubscribeByFile(e.fsPath, true);
         });
+        mapping.watcher.onDidChange(() => {
+            this.handleViewerChanged(mapping);
+        });
 
         this.fileMappings.push(mapping);
 
@@ -116,13 +177,54 @@ export class ScriptSync implements vscode.Disposable {
                 new VSCodeHost()
             );
         }
+        if (hash) {
+            this.restoreLineMap(mapping, hash);
+        }
         return true;
     }
 
+    /**
+     * Picks up the line map of a restored viewer copy that was written
+     * compacted, or else its source map, when it still matches the content.
+     */
+    private async restoreLineMap(mapping: TrackedDocument, hash: string): Promise<void> {
+        const read = (file: string): Promise<string | undefined> =>
+            fs.promises.readFile(file, "utf8").catch(() => undefined);
+        const viewerFile = mapping.viewerDocument.fileName;
+
+        const sidecar = await read(`${viewerFile}${LINE_MAP_SIDECAR_EXTENSION}`);
+        let lineMap = sidecar === undefined ? undefined : parseLineMapSidecar(sidecar, hash);
+        const compacted = lineMap !== undefined;
+        if (!lineMap) {
+            const text = await read(`${viewerFile}${SOURCE_MAP_EXTENSION}`);
+            const sourceMap = text === undefined ? undefined : parseSourceMap(text);
+            try {
+                lineMap = sourceMap?.x_hash === hash ? LineMapper.fromSourceMap(sourceMap, ScriptSync.sourcePath) : undefined;
+            } catch (error) {
+                logWarning(`Ignoring the source map of ${path.basename(viewerFile)}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        // Skipped when the copy was written again in the meantime
+        if (lineMap && !this.disposed && mapping.hash === hash) {
+            mapping.compacted = compacted;
+            this.lineMappings = lineMap;
+        }
+    }
+
+    // Sources are named by file URL in source maps, for other tools to find them
+    private static sourceName(file: NormalizedPath): string {
+        return vscode.Uri.file(file).toString();
+    }
+
+    private static sourcePath(source: string): NormalizedPath {
+        return normalizePath(vscode.Uri.parse(source).fsPath);
+    }
+
     public unsubscribeById(id: string, close?: boolean): number {
         const mapping = this.fileMappings.find((m) => m.id === id);
         if (mapping) {
             this.fileMappings = this.fileMappings.filter((m) => m !== mapping);
+            mapping.watcher?.dispose();
             if (close) {
                 closeTextDocument(mapping.viewerDocument);
             }
@@ -137,6 +239,7 @@ export class ScriptSync implements vscode.Disposable {
         );
         if (mapping) {
             this.fileMappings = this.fileMappings.filter((m) => m !== mapping);
+            mapping.watcher?.dispose();
             if (close) {
                 closeTextDocument(mapping.viewerDocument);
             }
@@ -161,6 +264,25 @@ export class ScriptSync implements vscode.Disposable {
         return this.masterDocument;
     }
 
+    /**
+     * Points the sync at a different master, for example one just created
+     * from the viewer copy. The next save of the new master syncs it.
+     */
+    public setMasterDocument(masterDocument: vscode.TextDocument): void {
+        this.clearDiagnostics();
+        this.masterDocument = masterDocument;
+        this.includedFiles = [];
+        for (const mapping of this.fileMappings) {
+            mapping.hash = undefined;
+        }
+    }
+
+    public isOwnMaster(): boolean {
+        return this.fileMappings.some(
+            (mapping) => path.normalize(mapping.viewerDocument.fileName) === this.getMasterFilePath(),
+        );
+    }
+
     public getMasterFilePath(): string {
         return path.normalize(this.masterDocument.fileName);
     }
@@ -172,6 +294,18 @@ export class ScriptSync implements vscode.Disposable {
     public getTrackedIds(): string[] {
         return this.fileMappings.map((mapping) => mapping.id);
     }
+
+    public toPersisted(): PersistedSync {
+        return {
+            master: this.getMasterFilePath(),
+            language: this.language,
+            scripts: this.fileMappings.map((mapping) => ({
+                id: mapping.id,
+                viewerFile: path.normalize(mapping.viewerDocument.fileName),
+                ...(mapping.hash ? { hash: mapping.hash } : {}),
+            })),
+        };
+    }
     //#endregion
 
     //#region Diagnostics
@@ -196,7 +330,43 @@ export class ScriptSync implements vscode.Disposable {
 
     }
 
+    /**
+     * Waits for the viewer to report compiling the scripts after `since`
+     * (ms since the epoch), resolving with the results that arrived in time.
+     */
+    public waitForCompilation(scriptIds: string[], since: number, timeoutMs: number): Promise<Map<string, CompilationResult>> {
+        const collect = (): Map<string, CompilationResult> => {
+            const results = new Map<string, CompilationResult>();
+            for (const id of scriptIds) {
+                const entry = this.compilations.get(id);
+                if (entry && entry.at >= since) {
+                    results.set(id, entry.result);
+                }
+            }
+            return results;
+        };
+
+        return new Promise((resolve) => {
+            const finish = (): void => {
+                clearTimeout(timer);
+                this.compilationWaiters.delete(check);
+                resolve(collect());
+            };
+            const check = (): void => {
+                if (collect().size === scriptIds.length) {
+                    finish();
+                }
+            };
+            const timer = setTimeout(finish, timeoutMs);
+            this.compilationWaiters.add(check);
+            check();
+        });
+    }
+
     public async handleCompilationResult(message: CompilationResult): Promise<void> {
+        this.compilations.set(message.script_id, { result: message, at: Date.now() });
+        this.compilationWaiters.forEach((check) => check());
+
         const scriptUri: vscode.Uri = this.masterDocument.uri;
         const scriptName: string = path.basename(this.masterDocument.fileName);
 
@@ -217,13 +387,19 @@ export class ScriptSync implements vscode.Disposable {
 
         errors.forEach((error) => {
             let line = error.row;
+            let column = error.column || 1;
+            let length: number | undefined;
+            let macro: MacroReference | undefined;
             let file = normalizePath(this.masterDocument.uri.fsPath);
             let document: vscode.TextDocument | undefined = this.masterDocument;
 
             if (this.lineMappings) {
-                const mapping = LineMapper.convertAbsoluteLineToSource(this.lineMappings, error.row);
+                const mapping = LineMapper.convertPositionToSource(this.lineMappings, error.row, column);
                 if (mapping) {
                     line = mapping.line;
+                    column = mapping.column;
+                    length = mapping.length;
+                    macro = mapping.macro;
                     file = mapping.source;
                     document = vscode.workspace.textDocuments.find(doc =>
                         normalizePath(doc.uri.fsPath) === mapping.source
@@ -232,15 +408,18 @@ export class ScriptSync implements vscode.Disposable {
             }
 
             line = Math.max(0, (line || 1) - 1);
-            const column = Math.max(0, (error.column || 1) - 1);
+            column = Math.max(0, column - 1);
 
-            // Get the line length to create a proper range
+            // Get the line length to create a proper range, covering the
+            // whole invocation for errors in code from a macro
             const lineText = document?.lineAt(Math.min(line, document.lineCount - 1)).text;
-            const endColumn = lineText ? (column < lineText.length ? column + 1 : lineText.length) : column + 1;
+            const endColumn = lineText
+                ? Math.min(column + (length ?? 1), lineText.length)
+                : column + (length ?? 1);
 
             const range = new vscode.Range(
                 new vscode.Position(line, column),
-                new vscode.Position(line, endColumn)
+                new vscode.Position(line, Math.max(column, endColumn))
             );
 
             const diagnostic = new vscode.Diagnostic(
@@ -249,6 +428,17 @@ export class ScriptSync implements vscode.Disposable {
                 errorLevelToSeverity(error.level)
             );
             diagnostic.source = `Second Life Compile`;
+            if (macro) {
+                diagnostic.relatedInformation = [
+                    new vscode.DiagnosticRelatedInformation(
+                        new vscode.Location(
+                            vscode.Uri.file(macro.sourceFile ?? file),
+                            new vscode.Position(Math.max(0, macro.line - 1), Math.max(0, macro.column - 1)),
+                        ),
+                        `In the expansion of macro '${macro.name}'`,
+                    ),
+                ];
+            }
 
             if (!diagnosticList[file]) {
                 diagnosticList[file] = [];
@@ -260,6 +450,14 @@ export class ScriptSync implements vscode.Disposable {
         this.addDiagnostics(diagnosticList);
     }
 
+    /** The master and the files it included or required when last synced. */
+    public getSourceFiles(): NormalizedPath[] {
+        return [
+            normalizePath(this.getMasterFilePath()),
+            ...this.includedFiles.filter((include) => include.path).map((include) => normalizePath(include.path!)),
+        ];
+    }
+
     public usesInclude(filePath:string) : boolean {
         return this.includedFiles.some(
             include => include.path === filePath,
@@ -346,12 +544,35 @@ export class ScriptSync implements vscode.Disposable {
         );
         diagnostic.source = `Second Life Runtime`;
 
+        const masterFile = normalizePath(this.masterDocument.uri.fsPath);
+        const frames = symbolicateStack(message.stack ?? [], this.lineMappings, masterFile);
+        const related = frames.filter((frame) => frame.source && frame.originalLine !== undefined).map((frame) => {
+            const frameLine = Math.max(0, frame.originalLine! - 1);
+            return new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(vscode.Uri.file(frame.source!), new vscode.Range(frameLine, 0, frameLine, 0)),
+                `at ${describeStackFrame(frame, (source) => path.basename(source))}`,
+            );
+        });
+        if (related.length > 0) {
+            diagnostic.relatedInformation = related;
+        }
+
         const fileUri = vscode.Uri.file(file);
         this.diagnosticSources.add(file);
         this.diagnosticCollection.set(fileUri, [diagnostic]);
 
-        const errorLog = errorMessage +
-            (message.stack ? `\nStack trace:\n    ${message.stack.join('\n    ')}` : '');
+        RuntimeStacks.getInstance().add({
+            timestamp: Date.now(),
+            objectName: message.object_name,
+            objectId: message.object_id,
+            error: message.error,
+            master: masterFile,
+            frames,
+        });
+
+        const errorLog = errorMessage + (frames.length > 0
+            ? `\nStack trace:\n    ${frames.map((frame) => frame.source ? `${frame.text} -> ${describeStackFrame(frame)}` : frame.text).join('\n    ')}`
+            : '');
         logError(errorLog);
 
     }
@@ -362,109 +583,435 @@ export class ScriptSync implements vscode.Disposable {
     }
     //#endregion
 
-    public async handleMasterSaved(): Promise<void> {
+    /**
+     * Called when a viewer copy changes on disk. Our own writes are
+     * recognised by their hash; anything else was edited outside VS Code
+     * and is traced back to the sources for review.
+     */
+    private async handleViewerChanged(mapping: TrackedDocument): Promise<void> {
+        // The copy may have been unsubscribed while a change was pending
+        if (this.disposed || !this.fileMappings.includes(mapping) || mapping.reviewing || this.isOwnMaster()) {
+            return;
+        }
+
+        let current: string;
         try {
-            // Read the original content
-            const masterFilePath: string = this.getMasterFilePath();
-            const baseName: string = path.basename(masterFilePath);
+            current = await fs.promises.readFile(mapping.viewerDocument.fileName, "utf8");
+        } catch {
+            return;
+        }
+        const hash = sha256(current);
+        if (hash === mapping.hash || current === mapping.content) {
+            return;
+        }
+        if (mapping.compacted) {
+            // Without the @line directives the lines cannot be traced back
+            logInfo(`Changes made in the viewer to the compacted copy of ${path.basename(this.getMasterFilePath())} are not mapped back to the sources`);
+            mapping.content = current;
+            mapping.hash = hash;
+            return;
+        }
 
+        const result = mapChangesToSources(mapping.content ?? "", current, this.language);
+        mapping.reviewing = true;
+        try {
+            await reviewViewerChanges(path.basename(this.getMasterFilePath()), this.getMasterFilePath(), result);
+            // Either way the viewer copy is now the agreed content, the
+            // next save of the master replaces it
+            mapping.content = current;
+            mapping.hash = hash;
+        } finally {
+            mapping.reviewing = false;
+        }
+        // Pick up anything that changed while the review was open
+        await this.handleViewerChanged(mapping);
+    }
+
+    public async handleMasterSaved(): Promise<SyncOutcome> {
+        const outcome = await this.queueSync(async () => {
+            // Read the original content
             const originalContent = await fs.promises.readFile(
-                masterFilePath,
+                this.getMasterFilePath(),
                 "utf8",
             );
-            let finalContent = originalContent;
-            let preprocessorResult: PreprocessorResult | null = null;
-
-            this.clearDiagnostics();
-            // Check if preprocessing is enabled
-            if (this.preprocessor && this.config.getConfig<boolean>(ConfigKey.PreprocessorEnable)) {
-                try {
-                    console.log(`Preprocessing enabled for: ${baseName}`);
-
-                    this.macros.clearNonSystemMacros();
-                    preprocessorResult = await this.preprocessor.process(
-                        originalContent,
-                        normalizePath(masterFilePath),
-                        this.language
-                    );
+            return this.syncContent(originalContent, false);
+        });
+        return outcome ?? { failed: true, written: [] };
+    }
 
+    /**
+     * Live sync: pushes the unsaved editor content of the master, with its
+     * includes as open in their editors, to the viewer copies. Nothing is
+     * written while the preprocessor reports errors.
+     */
+    public async handleMasterEdited(): Promise<void> {
+        await this.queueSync(() => this.syncContent(this.masterDocument.getText(), true));
+    }
 
-                    if (preprocessorResult.issues && preprocessorResult.issues.length > 0) {
-                        const diagnostics = ScriptSync.preprocessorErrorsToDiagnostics(
-                            preprocessorResult.issues,
-                            `${preprocessorResult.language} Preprocessor`
-                        );
-                        this.addDiagnostics(diagnostics);
-                    }
+    /**
+     * Preprocesses a file that may not be synced, as it is in its editor or
+     * on disk, without syncing anything.
+     */
+    public static async previewFile(uri: vscode.Uri, language: ScriptLanguage): Promise<PreprocessedContent> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const standalone = new ScriptSync(document, language, ConfigService.getInstance());
+        try {
+            return await standalone.preview();
+        } finally {
+            standalone.dispose();
+        }
+    }
 
-                    if(preprocessorResult.includes && preprocessorResult.includes.length > 0) {
-                        this.includedFiles = preprocessorResult.includes;
-                    }
+    /**
+     * Preprocesses the master as it is in the editor, for the agent owning
+     * its first tracked script, without syncing anything.
+     */
+    public async preview(): Promise<PreprocessedContent> {
+        let preview: PreprocessedContent = { content: this.masterDocument.getText(), failed: true };
+        await this.queueSync(async () => {
+            const issues = new Map<string, PreprocessorError>();
+            this.currentAgent = this.groupMappingsByAgent().keys().next().value;
+            try {
+                preview = await this.preprocessContent(this.masterDocument.getText(), issues, true);
+            } finally {
+                this.currentAgent = undefined;
+            }
+            preview.issues = [...issues.values()];
+        });
+        return preview;
+    }
 
-                    if (preprocessorResult.success) {
-                        finalContent = preprocessorResult.content;
-                        this.lineMappings = preprocessorResult.lineMappings;
+    // Syncs share the macro state and the current agent, so they run one at a time
+    private queueSync<T>(sync: () => Promise<T>): Promise<T | undefined> {
+        const next = this.syncQueue.then(async () => {
+            if (this.disposed) {
+                return undefined;
+            }
+            try {
+                return await sync();
+            } catch (err: any) {
+                this.currentAgent = undefined;
+                vscode.window.showErrorMessage(`Error syncing file: ${err.message}`);
+                return undefined;
+            }
+        });
+        this.syncQueue = next.then(() => undefined);
+        return next;
+    }
+
+    private async syncContent(originalContent: string, live: boolean): Promise<SyncOutcome> {
+        // The agent macros expand differently for each agent, so the
+        // content is preprocessed once per owner of the tracked scripts.
+        const issues = new Map<string, PreprocessorError>();
+        const outputs: { mappings: TrackedDocument[]; content: string; lineMappings?: LineMapping[]; compacted: boolean }[] = [];
+        let failed = false;
+        let lineMappings: LineMapping[] | undefined;
+        for (const [agent, mappings] of this.groupMappingsByAgent()) {
+            this.currentAgent = agent;
+            const result = await this.preprocessContent(originalContent, issues, live);
+            failed ||= result.failed;
+            lineMappings = result.lineMappings ?? lineMappings;
+            if (result.includes) {
+                this.includedFiles = result.includes;
+            }
+            outputs.push({ mappings, content: result.content, lineMappings: result.lineMappings, compacted: result.compacted ?? false });
+        }
+        this.currentAgent = undefined;
 
-                        console.log(
-                            `${preprocessorResult.language.toUpperCase()} preprocessing completed successfully for: ${baseName}`,
-                        );
-                    } else {
-                        // Preprocessing failed, use original content and show error
-                        finalContent = originalContent;
+        this.clearDiagnostics();
+        if (issues.size > 0) {
+            const diagnostics = ScriptSync.preprocessorErrorsToDiagnostics(
+                [...issues.values()],
+                `${this.language} Preprocessor`
+            );
+            this.addDiagnostics(diagnostics);
+        }
+
+        failed ||= [...issues.values()].some((issue) => !issue.isWarning);
+        if (live && failed) {
+            // Keep the viewer on the last good version while the code is being typed
+            return { failed, written: [] };
+        }
+        if (this.checkBudget(outputs, live)) {
+            return { failed: false, blocked: true, written: [] };
+        }
+        if (lineMappings) {
+            this.lineMappings = lineMappings;
+        }
+
+        const includes = [...new Set(this.includedFiles.map((include) => include.path ?? include.file))];
+        const written: string[] = [];
+        for (const { mappings, content, lineMappings, compacted } of outputs) {
+            const hash = sha256(content);
+
+            // Walk through the TrackedDocuments and save their finalContents if the hash has changed
+            const changed = this.getFileMappingsFilteredByHash(mappings, hash, live);
+            await this.writeViewerCopies(changed, content, hash, includes, lineMappings, compacted);
+            written.push(...changed.map((mapping) => mapping.id));
+        }
+        return { failed, written };
+    }
+
+    /**
+     * Sends content written earlier, such as a snapshot from the sync
+     * history, to the viewer copies of the scripts it was written to. The
+     * agent macros were expanded for the agent owning those scripts, so the
+     * copies of other agents are left alone. `lineMap` is the line map of
+     * compacted content.
+     * @returns the ids of the scripts written
+     */
+    public async resend(content: string, scriptIds: string[], includes: string[], lineMap?: LineMapping[]): Promise<string[]> {
+        const written = await this.queueSync(async () => {
+            const mappings = this.fileMappings.filter((mapping) => scriptIds.includes(mapping.id));
+            if (mappings.length === 0) {
+                return [];
+            }
+            this.lineMappings = lineMap ?? LineMapper.parseLineMappingsFromContent(content, this.language, new VSCodeHost());
+            await this.writeViewerCopies(mappings, content, sha256(content), includes, this.lineMappings, lineMap !== undefined);
+            return mappings.map((mapping) => mapping.id);
+        });
+        return written ?? [];
+    }
+
+    /**
+     * Writes the content to the viewer copies. Compacted content has its
+     * line map written next to each copy, so that errors can still be
+     * mapped after a reload, and with source maps enabled a source map is
+     * written next to each copy as well. Maps left from earlier content are
+     * removed.
+     */
+    private async writeViewerCopies(
+        mappings: TrackedDocument[],
+        content: string,
+        hash: string,
+        includes: string[],
+        lineMappings?: LineMapping[],
+        compacted: boolean = false,
+    ): Promise<void> {
+        if (mappings.length === 0) {
+            return;
+        }
+        const lineMap = compacted ? lineMappings : undefined;
+        const sidecar = lineMap ? serializeLineMapSidecar(hash, lineMap) : undefined;
+        const sourceMaps = lineMappings && this.config.getConfig<boolean>(ConfigKey.PreprocessorSourceMap)
+            ? lineMappings
+            : undefined;
+        const lineCount = content.split(/\r?\n/).length;
+
+        const writeOrRemove = (file: string, text?: string): Promise<void> =>
+            text === undefined ? fs.promises.rm(file, { force: true }) : fs.promises.writeFile(file, text, "utf8");
+        await Promise.all(
+            mappings.map(async (mapping) => {
+                const viewerFile = mapping.viewerDocument.fileName;
+                mapping.hash = hash;
+                mapping.content = content;
+                mapping.compacted = compacted;
+                await fs.promises.writeFile(
+                    viewerFile,
+                    content,
+                    "utf8",
+                );
+                await writeOrRemove(`${viewerFile}${LINE_MAP_SIDECAR_EXTENSION}`, sidecar);
+                await writeOrRemove(`${viewerFile}${SOURCE_MAP_EXTENSION}`, sourceMaps && serializeSourceMap({
+                    ...LineMapper.toSourceMap(sourceMaps, lineCount, path.basename(viewerFile), ScriptSync.sourceName),
+                    x_hash: hash,
+                }));
+            }),
+        );
+        await SyncHistory.getInstance().record(
+            this.getMasterFilePath(),
+            hash,
+            content,
+            includes,
+            mappings.map((mapping) => mapping.id),
+            lineMap,
+        );
+        this._onDidWrite.fire();
+    }
+
+    //====================================================================
+    //#region Budget checks
+    public static getBudgetMode(): BudgetMode {
+        return ConfigService.getInstance().getConfig<BudgetMode>(ConfigKey.BudgetMode) ?? "warn";
+    }
+
+    public static getBudgetLimits(language: ScriptLanguage): BudgetLimits {
+        const configured = ConfigService.getInstance()
+            .getConfig<Partial<Record<ScriptLanguage, Partial<BudgetLimits>>>>(ConfigKey.BudgetLimits) ?? {};
+        return { ...DEFAULT_BUDGET_LIMITS[language], ...configured[language] };
+    }
+
+    /** Measures the output of a master. `lineMap` is the line map of compacted output. */
+    public static analyzeBudget(content: string, language: ScriptLanguage, masterPath: string, lineMap?: LineMapping[]): BudgetReport {
+        const limits = ScriptSync.getBudgetLimits(language);
+        if (!lineMap) {
+            return analyzeBudget(content, language, limits);
+        }
+        const traced = LineMapper.traceMappings(lineMap, content.split(/\r?\n/).length, normalizePath(masterPath));
+        return analyzeBudget(content, language, limits, traced);
+    }
+
+    /** A file from the @line directives of the output, unset for the master, as named in messages. */
+    public static describeOrigin(masterPath: string, file?: string): string {
+        return path.basename(file === undefined ? masterPath : new VSCodeHost().uriToFileName(file));
+    }
 
+    /**
+     * Checks the outputs against the budget of the language, reporting
+     * problems as diagnostics on the master. Saves also log where the size
+     * comes from.
+     * @returns true when the outputs must not be sent
+     */
+    private checkBudget(outputs: { content: string; lineMappings?: LineMapping[]; compacted: boolean }[], live: boolean): boolean {
+        const mode = ScriptSync.getBudgetMode();
+        if (mode === "off") {
+            return false;
+        }
+        // The largest output decides, agent macros rarely change the size much
+        const report = outputs
+            .map((output) => ScriptSync.analyzeBudget(output.content, this.language, this.getMasterFilePath(), output.compacted ? output.lineMappings : undefined))
+            .reduce<BudgetReport | undefined>((largest, entry) => !largest || entry.sourceBytes > largest.sourceBytes ? entry : largest, undefined);
+        if (!report || report.problems.length === 0) {
+            return false;
+        }
+
+        const blocked = mode === "block";
+        const largestInclude = report.contributions.find((contribution) => contribution.file !== undefined);
+        const culprit = largestInclude ? `, ${ScriptSync.describeOrigin(this.getMasterFilePath(), largestInclude.file)} adds ${largestInclude.sourceBytes} bytes` : "";
+        const diagnostics = report.problems.map((problem) => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(0, 0, 0, 0),
+                `${describeBudgetProblem(problem)}${culprit}${blocked ? ". Not sent to the viewer." : ""}`,
+                blocked ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+            );
+            diagnostic.source = "Second Life Budget";
+            return diagnostic;
+        });
+        this.addDiagnostics({ [this.getMasterFilePath()]: diagnostics });
+
+        if (!live) {
+            const name = path.basename(this.getMasterFilePath());
+            logWarning([`Budget of ${name}:`, ...formatBudgetReport(report, (file) => ScriptSync.describeOrigin(this.getMasterFilePath(), file))].join("\n"));
+            showWarningMessage(
+                `${name}: ${describeBudgetProblem(report.problems[0])}${blocked ? ", not sent to the viewer" : ""}. See the log for what each include adds.`,
+            );
+        }
+        return blocked;
+    }
+    //#endregion
+
+    /**
+     * Runs the preprocessor over the master content, falling back to the
+     * original content when it is disabled or fails. Issues are collected
+     * by location so that repeated passes only report them once.
+     */
+    private async preprocessContent(
+        originalContent: string,
+        issues: Map<string, PreprocessorError>,
+        quiet: boolean = false,
+    ): Promise<PreprocessedContent> {
+        const masterFilePath: string = this.getMasterFilePath();
+        const baseName: string = path.basename(masterFilePath);
+        let finalContent = originalContent;
+        let failed = false;
+        let lineMappings: LineMapping[] | undefined;
+        let includes: IncludeInfo[] | undefined;
+        let compacted = false;
+        let preprocessorResult: PreprocessorResult | null = null;
+
+        // Check if preprocessing is enabled
+        if (this.preprocessor && this.config.getConfig<boolean>(ConfigKey.PreprocessorEnable)) {
+            try {
+                console.log(`Preprocessing enabled for: ${baseName}`);
+
+                this.macros.clearNonSystemMacros();
+                preprocessorResult = await this.preprocessor.process(
+                    originalContent,
+                    normalizePath(masterFilePath),
+                    this.language
+                );
+
+                for (const issue of preprocessorResult.issues ?? []) {
+                    issues.set(`${issue.file}:${issue.lineNumber}:${issue.message}`, issue);
+                }
+
+                if (preprocessorResult.includes && preprocessorResult.includes.length > 0) {
+                    includes = preprocessorResult.includes;
+                }
+
+                if (preprocessorResult.success) {
+                    finalContent = preprocessorResult.content;
+                    lineMappings = preprocessorResult.lineMappings;
+                    compacted = preprocessorResult.compacted ?? false;
+
+                    console.log(
+                        `${preprocessorResult.language.toUpperCase()} preprocessing completed successfully for: ${baseName}`,
+                    );
+                } else {
+                    // Preprocessing failed, use original content and show error
+                    finalContent = originalContent;
+                    failed = true;
+
+                    if (!quiet) {
                         vscode.window.showErrorMessage("Preprocessing failed");
                     }
-                } catch (error) {
-                    // Fallback to original content on any unexpected errors
-                    finalContent = originalContent;
-                    const errorMessage = `Preprocessing error for ${baseName}: ${
-                        error instanceof Error ? error.message : String(error)
-                    }`;
-                    console.error(errorMessage);
+                }
+            } catch (error) {
+                // Fallback to original content on any unexpected errors
+                finalContent = originalContent;
+                const errorMessage = `Preprocessing error for ${baseName}: ${
+                    error instanceof Error ? error.message : String(error)
+                }`;
+                console.error(errorMessage);
+                failed = true;
+                if (!quiet) {
                     vscode.window.showErrorMessage(errorMessage);
                 }
-            } else {
-                console.log(
-                    `Preprocessing disabled, using original content for: ${baseName}`,
-                );
             }
-
-            const sha = sha256.create();
-            sha.update(finalContent);
-            const hash = sha.hex();
-
-            // Walk through all TrackedDocuments and save their finalContents if the hash has changed
-            await Promise.all(
-                this.getFileMappingsFilteredByHash(hash)
-                    .map((mapping) => {
-                        mapping.hash = hash;
-                        return fs.promises.writeFile(
-                            mapping.viewerDocument.fileName,
-                            finalContent,
-                            "utf8",
-                        );
-                    }
-                    ),
+        } else {
+            console.log(
+                `Preprocessing disabled, using original content for: ${baseName}`,
             );
+        }
 
-        } catch (err: any) {
-            vscode.window.showErrorMessage(`Error syncing file: ${err.message}`);
+        return { content: finalContent, failed, lineMappings, includes, compacted };
+    }
+
+    // Tracked documents grouped by the agent owning their script ID
+    private groupMappingsByAgent(): Map<ScriptAgent | undefined, TrackedDocument[]> {
+        const synchService = SynchService.getInstance();
+        const byAgentId = new Map<string | undefined, { agent?: ScriptAgent; mappings: TrackedDocument[] }>();
+        for (const mapping of this.fileMappings) {
+            const agent = synchService.getScriptAgent(mapping.id);
+            const group = byAgentId.get(agent?.agentId) ?? { agent, mappings: [] };
+            group.mappings.push(mapping);
+            byAgentId.set(agent?.agentId, group);
+        }
+
+        const groups = new Map<ScriptAgent | undefined, TrackedDocument[]>();
+        for (const group of byAgentId.values()) {
+            groups.set(group.agent, group.mappings);
+        }
+        if (groups.size === 0) {
+            // Nothing tracked, still preprocess so diagnostics are refreshed
+            groups.set(undefined, []);
         }
+        return groups;
     }
 
-    private getFileMappingsFilteredByHash(hash:string) : TrackedDocument[] {
-        if(!ConfigService.getInstance().getConfig<boolean>(ConfigKey.CompareHashBeforeSync, false)) {
-            return this.fileMappings;
+    private getFileMappingsFilteredByHash(mappings: TrackedDocument[], hash:string, alwaysCompare: boolean = false) : TrackedDocument[] {
+        if(!alwaysCompare && !ConfigService.getInstance().getConfig<boolean>(ConfigKey.CompareHashBeforeSync, false)) {
+            return mappings;
         }
-        return this.fileMappings.filter(mapping => mapping.hash !== hash);
+        return mappings.filter(mapping => mapping.hash !== hash);
     }
 
-    private static getCurrentAgentId(): string {
-        return SynchService.getInstance().agentId || "unknown-agent-id";
+    private getCurrentAgentId(): string {
+        return this.currentAgent?.agentId || "unknown-agent-id";
     }
 
-    private static getCurrentAgentName(): string {
-        return SynchService.getInstance().agentName || "unknown-agent-name";
+    private getCurrentAgentName(): string {
+        return this.currentAgent?.agentName || "unknown-agent-name";
     }
 
     private initializeSystemMacros(language: ScriptLanguage): void {
@@ -477,10 +1024,10 @@ export class ScriptSync implements vscode.Disposable {
             this.macros.defineSystemMacro("__LINE__", (context) => context.line.toString());
             this.macros.defineSystemMacro("__FILE__", (context) => `"${path.normalize(context.sourceFile)}"`);
             this.macros.defineSystemMacro("__SHORTFILE__", (context) => `"${path.basename(path.normalize(context.sourceFile))}"`);
-            this.macros.defineSystemMacro("__AGENTID__", (_context) => `"${ScriptSync.getCurrentAgentId()}"`);
-            this.macros.defineSystemMacro("__AGENTKEY__", (_context) => `"${ScriptSync.getCurrentAgentId()}"`);
-            this.macros.defineSystemMacro("__AGENTIDRAW__", (_context) => ScriptSync.getCurrentAgentId());
-            this.macros.defineSystemMacro("__AGENTNAME__", (_context) => `"${ScriptSync.getCurrentAgentName()}"`);
+            this.macros.defineSystemMacro("__AGENTID__", (_context) => `"${this.getCurrentAgentId()}"`);
+            this.macros.defineSystemMacro("__AGENTKEY__", (_context) => `"${this.getCurrentAgentId()}"`);
+            this.macros.defineSystemMacro("__AGENTIDRAW__", (_context) => this.getCurrentAgentId());
+            this.macros.defineSystemMacro("__AGENTNAME__", (_context) => `"${this.getCurrentAgentName()}"`);
             //this.macros.defineSystemMacro("__ASSETID__", (_context) => `"${getCurrentAssetId()}"`);
             this.macros.defineSystemMacro("__DATE__", (_context) => {
                 let date = new Date();
@@ -503,6 +1050,8 @@ export class ScriptSync implements vscode.Disposable {
         }
 
         this.disposed = true;
+        this._onDidWrite.dispose();
+        this.fileMappings.forEach((mapping) => mapping.watcher?.dispose());
 
         try {
             this.diagnosticCollection.dispose();
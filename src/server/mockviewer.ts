@@ -0,0 +1,730 @@
+/**
+ * @file mockviewer.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Local stand-in for the viewer side of the external editor protocol
+ * described in doc/Message_Interfaces.md. Used by the integration tests and
+ * for offline development when no Second Life viewer is available.
+ *
+ * The mock creates viewer style temp files (sl_script_<name>_<id>.<ext>),
+ * performs the session handshake (optionally with a challenge file), serves
+ * language syntax requests and answers script subscriptions. When a subscribed
+ * temp file is written it replies with `script.compiled`, using the rules
+ * registered with onSave().
+ *
+ * Example:
+ * ```typescript
+ * const viewer = new MockViewer({ port: 0, challenge: true });
+ * const port = await viewer.start();
+ * const script = await viewer.createScript("main", "lsl");
+ * viewer.onSave("main", [{ row: 3, column: 1, level: "ERROR", message: "syntax error" }]);
+ * ```
+ *
+ * It can also be run standalone with an optional JSON scenario file:
+ *   node out/server/mockviewer.js [scenario.json]
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes, randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import WebSocket, { WebSocketServer } from "ws";
+import type {
+    SessionHandshake,
+    SessionHandshakeResponse,
+    ScriptSubscribe,
+    ScriptSubscribeResponse,
+    CompilationError,
+    CompilationResult,
+    RuntimeDebug,
+    RuntimeError,
+} from "../viewereditwsclient";
+
+//=============================================================================
+//#region Types
+
+export interface MockViewerOptions {
+    host?: string;                  // default "localhost"
+    port?: number;                  // default 9020, 0 picks a free port
+    viewerName?: string;
+    viewerVersion?: string;
+    agentId?: string;
+    agentName?: string;
+    syntaxId?: string;
+    languages?: string[];
+    features?: { [feature: string]: boolean };
+    challenge?: boolean;            // require a challenge file round trip
+    scriptDir?: string;             // where temp scripts and challenge files are written
+    syntax?: { lsl?: any; lua?: any }; // definitions served by language.syntax
+    autoCompile?: boolean;          // reply script.compiled when a subscribed file changes (default true)
+    acceptUnknownScripts?: boolean; // subscribe scripts that were never created or registered (default true)
+    requestTimeoutMs?: number;      // timeout for calls made to the editor
+}
+
+export interface MockScript {
+    script_id: string;
+    script_name: string;
+    language: string;
+    file?: string;
+    object_id: string;
+    object_name: string;
+}
+
+/**
+ * Reply to a simulated save. Either a static list of errors, or a function
+ * that inspects the content the editor wrote to the temp file.
+ */
+export type CompileReply =
+    | CompilationError[]
+    | ((content: string, script: MockScript) => CompilationError[] | Partial<CompilationResult> | undefined);
+
+export type ScriptMatcher = string | RegExp;
+
+interface CompileRule {
+    match: ScriptMatcher;
+    reply: CompileReply;
+}
+
+interface SubscribeRule {
+    match: ScriptMatcher;
+    message: string;
+    status: number;
+}
+
+interface PendingCall {
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+}
+
+/** Every JSON-RPC message crossing the socket, as seen by the mock */
+export interface MockViewerTraffic {
+    direction: "in" | "out";
+    message: any;
+}
+
+const INVALID_PARAMS = -32602;
+const METHOD_NOT_FOUND = -32601;
+
+//#endregion
+
+//=============================================================================
+//#region Mock viewer
+
+export class MockViewer extends EventEmitter {
+    private server: WebSocketServer | undefined;
+    private client: WebSocket | undefined;
+    private readonly options: Required<Omit<MockViewerOptions, "syntax">> & { syntax: { lsl?: any; lua?: any } };
+    private scripts = new Map<string, MockScript>();
+    private subscriptions = new Set<string>();
+    private watchers = new Map<string, fs.FSWatcher>();
+    private saveTimers = new Map<string, NodeJS.Timeout>();
+    private compileRules: CompileRule[] = [];
+    private subscribeRules: SubscribeRule[] = [];
+    private stalledMethods = new Set<string>();
+    private pendingCalls = new Map<number, PendingCall>();
+    private nextRequestId = 1;
+    private challengeToken: string | undefined;
+    private sessionEstablished = false;
+
+    public readonly traffic: MockViewerTraffic[] = [];
+
+    constructor(options: MockViewerOptions = {}) {
+        super();
+        this.options = {
+            host: options.host ?? "localhost",
+            port: options.port ?? 9020,
+            viewerName: options.viewerName ?? "Mock Viewer",
+            viewerVersion: options.viewerVersion ?? "7.0.0.0",
+            agentId: options.agentId ?? "00000000-0000-0000-0000-000000000001",
+            agentName: options.agentName ?? "Mock Resident",
+            syntaxId: options.syntaxId ?? "mock-syntax",
+            languages: options.languages ?? ["lsl", "luau"],
+            features: options.features ?? { live_sync: true, error_reporting: true },
+            challenge: options.challenge ?? false,
+            scriptDir: options.scriptDir ?? path.join(os.tmpdir(), "sl-mock-viewer"),
+            syntax: options.syntax ?? {},
+            autoCompile: options.autoCompile ?? true,
+            acceptUnknownScripts: options.acceptUnknownScripts ?? true,
+            requestTimeoutMs: options.requestTimeoutMs ?? 5000,
+        };
+    }
+
+    //-------------------------------------------------------------------------
+    //#region Lifecycle
+
+    /**
+     * Starts listening and resolves with the bound port.
+     */
+    public async start(): Promise<number> {
+        await fs.promises.mkdir(this.options.scriptDir, { recursive: true });
+
+        return new Promise((resolve, reject) => {
+            const server = new WebSocketServer({ host: this.options.host, port: this.options.port });
+            server.once("error", reject);
+            server.once("listening", () => {
+                server.off("error", reject);
+                const address = server.address();
+                resolve(typeof address === "object" && address ? address.port : this.options.port);
+            });
+            server.on("connection", (socket) => this.onConnection(socket));
+            this.server = server;
+        });
+    }
+
+    public async stop(): Promise<void> {
+        for (const watcher of this.watchers.values()) {
+            watcher.close();
+        }
+        this.watchers.clear();
+        for (const timer of this.saveTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.saveTimers.clear();
+        this.rejectPendingCalls("Mock viewer stopped");
+
+        if (this.client) {
+            this.client.terminate();
+            this.client = undefined;
+        }
+        const server = this.server;
+        this.server = undefined;
+        if (server) {
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        }
+    }
+
+    public isSessionEstablished(): boolean {
+        return this.sessionEstablished;
+    }
+
+    public getSubscriptions(): string[] {
+        return [...this.subscriptions];
+    }
+
+    //#endregion
+
+    //-------------------------------------------------------------------------
+    //#region Scripting
+
+    /**
+     * Creates a viewer style temp file for a script and registers it.
+     */
+    public async createScript(name: string, language: "lsl" | "luau" = "lsl", content: string = ""): Promise<MockScript> {
+        const script = this.registerScript(randomUUID(), name, language);
+        script.file = path.join(this.options.scriptDir, `sl_script_${name}_${script.script_id}.${language}`);
+        await fs.promises.writeFile(script.file, content, "utf8");
+        return script;
+    }
+
+    /**
+     * Registers a script the mock should know about without creating a file.
+     */
+    public registerScript(scriptId: string, name: string, language: string, file?: string): MockScript {
+        const script: MockScript = {
+            script_id: scriptId,
+            script_name: name,
+            language,
+            file,
+            object_id: randomUUID(),
+            object_name: `Object with ${name}`,
+        };
+        this.scripts.set(scriptId, script);
+        return script;
+    }
+
+    public getScript(scriptId: string): MockScript | undefined {
+        return this.scripts.get(scriptId);
+    }
+
+    /**
+     * Registers the reply to send when a matching script is saved. Later rules
+     * take precedence over earlier ones. Scripts without a rule compile cleanly.
+     */
+    public onSave(match: ScriptMatcher, reply: CompileReply): this {
+        this.compileRules.unshift({ match, reply });
+        return this;
+    }
+
+    /**
+     * Makes script.subscribe fail for matching scripts.
+     */
+    public rejectSubscription(match: ScriptMatcher, message: string = "Subscription rejected", status: number = 403): this {
+        this.subscribeRules.unshift({ match, message, status });
+        return this;
+    }
+
+    /**
+     * Never answers requests for a method, like a viewer that has hung.
+     */
+    public stallMethod(method: string): this {
+        this.stalledMethods.add(method);
+        return this;
+    }
+
+    public clearRules(): void {
+        this.compileRules = [];
+        this.subscribeRules = [];
+        this.stalledMethods.clear();
+    }
+
+    /**
+     * Compiles the current content of a script's temp file according to the
+     * registered rules and sends the result to the editor.
+     */
+    public async simulateSave(scriptId: string): Promise<CompilationResult> {
+        const script = this.scripts.get(scriptId) ?? this.registerScript(scriptId, scriptId, "lsl");
+        const content = script.file ? await fs.promises.readFile(script.file, "utf8") : "";
+        const rule = this.compileRules.find((r) => this.matches(r.match, script));
+
+        let result: CompilationResult = { script_id: scriptId, success: true, running: true };
+        if (rule) {
+            const reply = typeof rule.reply === "function" ? rule.reply(content, script) : rule.reply;
+            if (Array.isArray(reply)) {
+                result = reply.length > 0
+                    ? { script_id: scriptId, success: false, running: false, errors: reply }
+                    : result;
+            } else if (reply) {
+                result = { ...result, ...reply, script_id: scriptId };
+            }
+        }
+
+        this.sendCompiled(result);
+        this.emit("compiled", result, content);
+        return result;
+    }
+
+    //#endregion
+
+    //-------------------------------------------------------------------------
+    //#region Viewer to editor messages
+
+    public sendCompiled(result: CompilationResult): boolean {
+        return this.notify("script.compiled", result);
+    }
+
+    public sendRuntimeDebug(scriptId: string, message: string): boolean {
+        const script = this.scripts.get(scriptId);
+        const params: RuntimeDebug = {
+            script_id: scriptId,
+            object_id: script?.object_id ?? randomUUID(),
+            object_name: script?.object_name ?? "Object",
+            message,
+        };
+        return this.notify("runtime.debug", params);
+    }
+
+    public sendRuntimeError(scriptId: string, error: string, line: number, stack?: string[]): boolean {
+        const script = this.scripts.get(scriptId);
+        const params: RuntimeError = {
+            script_id: scriptId,
+            object_id: script?.object_id ?? randomUUID(),
+            object_name: script?.object_name ?? "Object",
+            message: error,
+            error,
+            line,
+            ...(stack ? { stack } : {}),
+        };
+        return this.notify("runtime.error", params);
+    }
+
+    public sendUnsubscribe(scriptId: string): boolean {
+        this.unwatch(scriptId);
+        this.subscriptions.delete(scriptId);
+        return this.notify("script.unsubscribe", { script_id: scriptId });
+    }
+
+    public sendSyntaxChange(syntaxId: string): boolean {
+        this.options.syntaxId = syntaxId;
+        return this.notify("language.syntax.change", { id: syntaxId });
+    }
+
+    /**
+     * Gracefully ends the session the way a viewer logout would.
+     */
+    public disconnect(reason: number = 0, message: string = "Viewer closing"): void {
+        this.notify("session.disconnect", { reason, message });
+        this.client?.close(1000, message);
+    }
+
+    /**
+     * Drops the connection without any goodbye, like a viewer crash.
+     */
+    public dropConnection(): void {
+        this.client?.terminate();
+    }
+
+    //#endregion
+
+    //-------------------------------------------------------------------------
+    //#region Test helpers
+
+    /**
+     * Resolves with the params of the next inbound message for a method.
+     */
+    public waitFor(method: string, predicate?: (params: any) => boolean, timeoutMs: number = 5000): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.off("message", listener);
+                reject(new Error(`Timed out waiting for ${method}`));
+            }, timeoutMs);
+            const listener = (received: string, params: any): void => {
+                if (received === method && (!predicate || predicate(params))) {
+                    clearTimeout(timer);
+                    this.off("message", listener);
+                    resolve(params);
+                }
+            };
+            this.on("message", listener);
+        });
+    }
+
+    /**
+     * Resolves once a handshake has completed with session.ok.
+     */
+    public waitForSession(timeoutMs: number = 5000): Promise<void> {
+        if (this.sessionEstablished) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.off("session", listener);
+                reject(new Error("Timed out waiting for session"));
+            }, timeoutMs);
+            const listener = (): void => {
+                clearTimeout(timer);
+                resolve();
+            };
+            this.once("session", listener);
+        });
+    }
+
+    //#endregion
+
+    //-------------------------------------------------------------------------
+    //#region Connection handling
+
+    private async onConnection(socket: WebSocket): Promise<void> {
+        if (this.client) {
+            // The viewer only talks to one editor at a time
+            this.client.terminate();
+        }
+        this.client = socket;
+        this.sessionEstablished = false;
+        this.subscriptions.clear();
+
+        socket.on("message", (data) => this.onMessage(socket, data));
+        socket.on("close", () => {
+            if (this.client === socket) {
+                this.client = undefined;
+                this.sessionEstablished = false;
+                this.subscriptions.clear();
+                this.rejectPendingCalls("Connection closed");
+                this.emit("closed");
+            }
+        });
+        this.emit("connected");
+
+        try {
+            await this.performHandshake(socket);
+        } catch (error) {
+            this.emit("handshakeFailed", error);
+        }
+    }
+
+    private async performHandshake(socket: WebSocket): Promise<void> {
+        let challenge: string | undefined;
+        if (this.options.challenge) {
+            this.challengeToken = randomBytes(16).toString("hex");
+            challenge = path.join(this.options.scriptDir, `challenge_${randomUUID()}.txt`);
+            await fs.promises.writeFile(challenge, this.challengeToken, "utf8");
+        }
+
+        const handshake: SessionHandshake = {
+            server_version: "1.0.0",
+            protocol_version: "1.0",
+            viewer_name: this.options.viewerName,
+            viewer_version: this.options.viewerVersion,
+            agent_id: this.options.agentId,
+            agent_name: this.options.agentName,
+            languages: this.options.languages,
+            syntax_id: this.options.syntaxId,
+            features: this.options.features,
+            ...(challenge ? { challenge } : {}),
+        };
+
+        try {
+            const response: SessionHandshakeResponse = await this.call("session.handshake", handshake);
+            this.emit("handshake", response);
+
+            if (this.options.challenge && response?.challenge_response !== this.challengeToken) {
+                this.notify("session.disconnect", { reason: 1, message: "Challenge failed" });
+                socket.close(1008, "Challenge failed");
+                throw new Error("Challenge failed");
+            }
+        } finally {
+            if (challenge) {
+                await fs.promises.rm(challenge, { force: true });
+            }
+        }
+
+        if (this.client !== socket) {
+            return;
+        }
+        this.notify("session.ok");
+        this.sessionEstablished = true;
+        this.emit("session");
+    }
+
+    private onMessage(socket: WebSocket, data: WebSocket.RawData): void {
+        let message: any;
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            return;
+        }
+        this.traffic.push({ direction: "in", message });
+
+        if (message.method === undefined && message.id !== undefined) {
+            // Response to one of our calls
+            const pending = this.pendingCalls.get(message.id);
+            if (pending) {
+                this.pendingCalls.delete(message.id);
+                clearTimeout(pending.timeout);
+                if (message.error) {
+                    pending.reject(new Error(`JSON-RPC Error ${message.error.code}: ${message.error.message}`));
+                } else {
+                    pending.resolve(message.result);
+                }
+            }
+            return;
+        }
+
+        this.emit("message", message.method, message.params);
+        const isRequest = message.id !== undefined;
+        if (isRequest && this.stalledMethods.has(message.method)) {
+            return;
+        }
+
+        switch (message.method) {
+            case "language.syntax.id":
+                this.respond(message.id, { id: this.options.syntaxId });
+                break;
+            case "language.syntax":
+                this.respond(message.id, this.getSyntax(message.params?.kind));
+                break;
+            case "script.subscribe":
+                this.onSubscribe(message.id, message.params);
+                break;
+            case "session.disconnect":
+                socket.close(1000, message.params?.message ?? "Editor disconnected");
+                break;
+            default:
+                if (isRequest) {
+                    this.respondError(message.id, METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+                }
+        }
+    }
+
+    private onSubscribe(id: number | string, params: ScriptSubscribe | undefined): void {
+        if (!params || typeof params.script_id !== "string") {
+            this.respondError(id, INVALID_PARAMS, "script_id is required");
+            return;
+        }
+
+        if (!this.scripts.has(params.script_id) && !this.options.acceptUnknownScripts) {
+            // A real viewer only knows the scripts it opened an editor for
+            this.respond(id, { script_id: params.script_id, success: false, status: 404, message: "Unknown script" });
+            return;
+        }
+
+        const script = this.scripts.get(params.script_id) ??
+            this.registerScript(params.script_id, params.script_name, params.script_language);
+        const rule = this.subscribeRules.find((r) => this.matches(r.match, script));
+
+        const response: ScriptSubscribeResponse = rule
+            ? { script_id: params.script_id, success: false, status: rule.status, message: rule.message }
+            : { script_id: params.script_id, success: true, status: 0 };
+
+        if (response.success) {
+            this.subscriptions.add(params.script_id);
+            this.watch(script);
+        }
+        this.respond(id, response);
+    }
+
+    private getSyntax(kind: string | undefined): any {
+        switch (kind) {
+            case "defs.lsl":
+                return { success: true, id: this.options.syntaxId, defs: this.options.syntax.lsl ?? {} };
+            case "defs.lua":
+                return { success: true, id: this.options.syntaxId, defs: this.options.syntax.lua ?? {} };
+            default:
+                return { success: false, id: this.options.syntaxId, error: `Unknown syntax kind: ${kind}` };
+        }
+    }
+
+    //#endregion
+
+    //-------------------------------------------------------------------------
+    //#region Temp file watching
+
+    private watch(script: MockScript): void {
+        if (!this.options.autoCompile || !script.file || this.watchers.has(script.script_id)) {
+            return;
+        }
+        const watcher = fs.watch(script.file, () => {
+            // Editors and fs.watch both tend to produce bursts, compile once
+            const existing = this.saveTimers.get(script.script_id);
+            if (existing) {
+                clearTimeout(existing);
+            }
+            this.saveTimers.set(script.script_id, setTimeout(() => {
+                this.saveTimers.delete(script.script_id);
+                if (this.subscriptions.has(script.script_id)) {
+                    // Not "error", which throws when nothing listens for it
+                    this.simulateSave(script.script_id).catch((error) => {
+                        this.emit("saveError", script, error);
+                    });
+                }
+            }, 50));
+        });
+        this.watchers.set(script.script_id, watcher);
+    }
+
+    private unwatch(scriptId: string): void {
+        this.watchers.get(scriptId)?.close();
+        this.watchers.delete(scriptId);
+    }
+
+    //#endregion
+
+    //-------------------------------------------------------------------------
+    //#region JSON-RPC plumbing
+
+    private matches(match: ScriptMatcher, script: MockScript): boolean {
+        const candidates = [script.script_id, script.script_name];
+        if (script.file) {
+            candidates.push(path.basename(script.file));
+        }
+        return candidates.some((candidate) =>
+            typeof match === "string" ? candidate === match : match.test(candidate),
+        );
+    }
+
+    private send(message: any): boolean {
+        if (!this.client || this.client.readyState !== WebSocket.OPEN) {
+            return false;
+        }
+        this.traffic.push({ direction: "out", message });
+        this.client.send(JSON.stringify(message));
+        return true;
+    }
+
+    /**
+     * Sends a notification to the editor. Params are sent as given, which
+     * lets tests send malformed messages.
+     */
+    public notify(method: string, params?: any): boolean {
+        return this.send({ jsonrpc: "2.0", method, ...(params !== undefined ? { params } : {}) });
+    }
+
+    private respond(id: number | string, result: any): void {
+        this.send({ jsonrpc: "2.0", id, result });
+    }
+
+    private respondError(id: number | string, code: number, message: string): void {
+        this.send({ jsonrpc: "2.0", id, error: { code, message } });
+    }
+
+    /**
+     * Sends a request to the editor and resolves with its result.
+     */
+    public call(method: string, params?: any): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const id = this.nextRequestId++;
+            const timeout = setTimeout(() => {
+                this.pendingCalls.delete(id);
+                reject(new Error(`Timed out waiting for response to ${method}`));
+            }, this.options.requestTimeoutMs);
+            this.pendingCalls.set(id, { resolve, reject, timeout });
+            if (!this.send({ jsonrpc: "2.0", id, method, params })) {
+                clearTimeout(timeout);
+                this.pendingCalls.delete(id);
+                reject(new Error("Editor not connected"));
+            }
+        });
+    }
+
+    private rejectPendingCalls(reason: string): void {
+        for (const pending of this.pendingCalls.values()) {
+            clearTimeout(pending.timeout);
+            pending.reject(new Error(reason));
+        }
+        this.pendingCalls.clear();
+    }
+
+    //#endregion
+}
+
+//#endregion
+
+//=============================================================================
+//#region Standalone entry point
+
+/**
+ * Scenario file accepted by the standalone mock viewer.
+ */
+export interface MockViewerScenario extends MockViewerOptions {
+    scripts?: { name: string; language?: "lsl" | "luau"; content?: string }[];
+    compile?: { match: string; errors?: CompilationError[]; running?: boolean }[];
+    reject?: { match: string; message?: string }[];
+}
+
+export async function runMockViewer(scenario: MockViewerScenario): Promise<MockViewer> {
+    const viewer = new MockViewer(scenario);
+    for (const rule of scenario.compile ?? []) {
+        viewer.onSave(rule.match, rule.errors && rule.errors.length > 0
+            ? rule.errors
+            : (): Partial<CompilationResult> => ({ success: true, running: rule.running ?? true }));
+    }
+    for (const rule of scenario.reject ?? []) {
+        viewer.rejectSubscription(rule.match, rule.message);
+    }
+
+    const port = await viewer.start();
+    console.log(`Mock viewer listening on ws://${scenario.host ?? "localhost"}:${port}`);
+    for (const entry of scenario.scripts ?? []) {
+        const script = await viewer.createScript(entry.name, entry.language ?? "lsl", entry.content ?? "");
+        console.log(`Created ${script.script_name} (${script.script_id}): ${script.file}`);
+    }
+
+    viewer.on("message", (method: string, params: any) => {
+        console.log(`<- ${method}`, params !== undefined ? JSON.stringify(params) : "");
+    });
+    viewer.on("compiled", (result: CompilationResult) => {
+        console.log(`-> script.compiled ${JSON.stringify(result)}`);
+    });
+    viewer.on("saveError", (script: MockScript, error: unknown) => {
+        console.error(`Simulated save of ${script.script_name} failed:`, error);
+    });
+    return viewer;
+}
+
+if (require.main === module) {
+    const scenarioFile = process.argv[2];
+    const scenario: MockViewerScenario = scenarioFile
+        ? JSON.parse(fs.readFileSync(scenarioFile, "utf8"))
+        : { scripts: [{ name: "mock_script", language: "lsl" }] };
+
+    runMockViewer(scenario).then((viewer) => {
+        process.on("SIGINT", () => {
+            viewer.stop().then(() => process.exit(0));
+        });
+    }).catch((error) => {
+        console.error("Failed to start mock viewer:", error);
+        process.exit(1);
+    });
+}
+
+//#endregion
@@ -0,0 +1,125 @@
+/**
+ * @file sessionstatusbar.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ */
+import * as vscode from "vscode";
+import { SynchService, SessionState } from "./synchservice";
+import { showOutputChannel, showStatusMessage } from "./utils";
+
+export const SESSION_MENU_COMMAND = "second-life-scripting.showSessionMenu";
+
+interface SessionMenuItem extends vscode.QuickPickItem {
+    action: () => void | Promise<void>;
+}
+
+/**
+ * Persistent status bar item reflecting the viewer session state.
+ * Clicking the item opens a quick pick with the session actions.
+ */
+export class SessionStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly synchService: SynchService) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.item.command = SESSION_MENU_COMMAND;
+
+        this.disposables.push(
+            this.synchService.onSessionStateChange((state) => this.update(state)),
+            vscode.commands.registerCommand(SESSION_MENU_COMMAND, () => this.showMenu()),
+        );
+
+        this.update(this.synchService.getSessionState());
+        this.item.show();
+    }
+
+    dispose(): void {
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+        this.item.dispose();
+    }
+
+    private update(state: SessionState): void {
+        const sessions = this.synchService.getSessions();
+
+        switch (state) {
+            case "connecting":
+                this.item.text = "$(sync~spin) SL: Connecting";
+                this.item.tooltip = "Connecting to Second Life viewer";
+                break;
+            case "handshaking": {
+                const viewer = sessions.find((session) => session.getState() === "handshaking")?.viewerName;
+                this.item.text = "$(sync~spin) SL: Handshaking";
+                this.item.tooltip = viewer
+                    ? `Handshaking with ${viewer}`
+                    : "Handshaking with Second Life viewer";
+                break;
+            }
+            case "connected": {
+                const established = sessions.filter((session) => session.isEstablished());
+                const names = established.map((session) => session.agentName ?? session.viewerName ?? session.endpoint.name);
+                this.item.text = `$(plug) SL: ${names.join(", ") || "Connected"}`;
+                this.item.tooltip = established.map((session) => [
+                    `Connected to ${session.viewerName ?? "Second Life viewer"} v${session.viewerVersion ?? "unknown"} (${session.endpoint.name})`,
+                    `Agent: ${session.agentName ?? "unknown"}`,
+                ].join("\n")).join("\n\n");
+                break;
+            }
+            default:
+                this.item.text = "$(debug-disconnect) SL: Disconnected";
+                this.item.tooltip = "Not connected to a Second Life viewer";
+                break;
+        }
+    }
+
+    private async showMenu(): Promise<void> {
+        const connected = this.synchService.isConnected();
+        const items: SessionMenuItem[] = [
+            {
+                label: connected ? "$(refresh) Reconnect" : "$(plug) Connect",
+                description: connected ? "Drop and re-establish the viewer sessions" : undefined,
+                action: async (): Promise<void> => {
+                    await this.synchService.reconnect();
+                },
+            },
+        ];
+
+        if (connected) {
+            items.push({
+                label: "$(debug-disconnect) Disconnect",
+                action: () => {
+                    this.synchService.disconnect();
+                },
+            });
+            items.push({
+                label: "$(cloud-download) Force Language Update",
+                action: () => {
+                    showStatusMessage("Forcing language update...", this.synchService.forceLanguageUpdate());
+                },
+            });
+        }
+
+        items.push({
+            label: "$(server) Select Viewer Endpoint",
+            description: this.synchService.getSelectedEndpoint().name,
+            action: () => this.synchService.promptForEndpoint(),
+        });
+
+        items.push({
+            label: "$(output) Open Log",
+            action: () => {
+                showOutputChannel();
+                this.synchService.logSessionStatus();
+            },
+        });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: "Second Life viewer session",
+        });
+        if (picked) {
+            await picked.action();
+        }
+    }
+}
@@ -149,10 +149,26 @@ export enum TokenType {
     UNKNOWN = "UNKNOWN",
 }
 
+/**
+ * Where a token produced by a macro expansion came from: its position in
+ * the body of the macro definition, and the invocation in the source that
+ * it was expanded for.
+ */
+export interface TokenExpansion {
+    macro: string;
+    sourceFile?: NormalizedPath;    // file of the definition
+    line: number;
+    column: number;
+    call?: { line: number; column: number; length: number };
+}
+
 /**
  * Represents a single token in the source
  */
 export class Token {
+    /** Set on tokens copied from a macro body */
+    public expansion?: TokenExpansion;
+
     constructor(
         public type: TokenType,
         public value: string,
@@ -249,13 +265,15 @@ export class Token {
      * Useful for macro expansion
      */
     clone(overrides?: Partial<Pick<Token, 'type' | 'value' | 'line' | 'column' | 'length'>>): Token {
-        return new Token(
+        const token = new Token(
             overrides?.type ?? this.type,
             overrides?.value ?? this.value,
             overrides?.line ?? this.line,
             overrides?.column ?? this.column,
             overrides?.length ?? this.length
         );
+        token.expansion = this.expansion;
+        return token;
     }
 
     /**
@@ -54,6 +54,7 @@ export interface PreprocessorResult {
     directiveCount?: number;
     issues: PreprocessorError[];
     includes?: IncludeInfo[];
+    compacted?: boolean;        // comments and @line directives left out, see lineMappings
 }
 //#endregion
 
@@ -209,6 +210,7 @@ export class LexingPreprocessor {
                 lineMappings: result.mappings,
                 issues,
                 includes: result.includes,
+                compacted: result.success && result.compacted,
             };
 
         } catch (error) {
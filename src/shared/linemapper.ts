@@ -5,12 +5,52 @@
 
 import { HostInterface, NormalizedPath } from "../interfaces/hostinterface";
 import { ScriptLanguage } from "./languageservice";
+import type { Token } from "./lexer";
+import { SourceMapSegment, SourceMapV3, decodeMappings, encodeMappings } from "./sourcemap";
 
 //-------------------------------------------------------------
+/** The place in a macro definition that produced some output. */
+export interface MacroReference {
+    name: string;
+    sourceFile?: NormalizedPath;
+    line: number;
+    column: number;
+}
+
+/**
+ * Where a token on an output line starts in its source line. Code from a
+ * macro body maps to the whole invocation, with the macro it came from.
+ */
+export interface ColumnMapping {
+    processedColumn: number;
+    originalColumn: number;
+    length?: number;            // of the invocation, for code from a macro body
+    macro?: MacroReference;
+}
+
 export interface LineMapping {
     processedLine: number;
     sourceFile: NormalizedPath;
     originalLine: number;
+    columns?: ColumnMapping[];  // by processedColumn, left out when every column is unchanged
+}
+
+/** A position in preprocessed output traced to its source. */
+export interface SourcePosition {
+    source: NormalizedPath;
+    line: number;
+    column: number;
+    length?: number;
+    macro?: MacroReference;
+}
+
+/**
+ * A line of preprocessed output traced to its source. `file` is the path
+ * from the @line directive, unset for the main script.
+ */
+export interface TracedLine {
+    file?: string;
+    line: number;
 }
 
 //-------------------------------------------------------------
@@ -108,6 +148,128 @@ export class LineMapper {
         };
     }
 
+    /**
+     * Converts a line and column in preprocessed output to its source. The
+     * column is carried over unchanged on lines whose mapping has no
+     * columns.
+     */
+    public static convertPositionToSource(lineMappings: LineMapping[], absoluteLine: number, column: number): SourcePosition | null {
+        const location = LineMapper.convertAbsoluteLineToSource(lineMappings, absoluteLine);
+        if (!location) {
+            return null;
+        }
+
+        let segment: ColumnMapping | undefined;
+        for (const candidate of lineMappings.find((mapping) => mapping.processedLine === absoluteLine)?.columns ?? []) {
+            if (candidate.processedColumn > column) {
+                break;
+            }
+            segment = candidate;
+        }
+        if (!segment) {
+            return { ...location, column };
+        }
+        if (segment.macro) {
+            return { ...location, column: segment.originalColumn, length: segment.length, macro: segment.macro };
+        }
+        return { ...location, column: segment.originalColumn + column - segment.processedColumn };
+    }
+
+    /**
+     * The column mapping of a token written to the output at a column.
+     */
+    public static mapTokenColumn(token: Token, processedColumn: number): ColumnMapping {
+        const expansion = token.expansion;
+        if (!expansion?.call) {
+            return { processedColumn, originalColumn: token.column };
+        }
+        return {
+            processedColumn,
+            originalColumn: expansion.call.column,
+            length: expansion.call.length,
+            macro: {
+                name: expansion.macro,
+                ...(expansion.sourceFile === undefined ? {} : { sourceFile: expansion.sourceFile }),
+                line: expansion.line,
+                column: expansion.column,
+            },
+        };
+    }
+
+    /**
+     * The column mappings worth keeping for a line, undefined when every
+     * token is where it was in the source.
+     */
+    public static significantColumns(columns: ColumnMapping[]): ColumnMapping[] | undefined {
+        return columns.some((column) => column.macro || column.processedColumn !== column.originalColumn) ? columns : undefined;
+    }
+
+    /**
+     * Builds a Source Map v3 for output with the given number of lines. Each
+     * line maps from its start, and per token where the mapping has columns;
+     * code from a macro body is named after the macro.
+     * @param sourceName - how a source file is named in the map, such as a file URL
+     */
+    public static toSourceMap(
+        lineMappings: LineMapping[],
+        lineCount: number,
+        file: string,
+        sourceName: (sourceFile: NormalizedPath) => string,
+    ): SourceMapV3 {
+        const sources: string[] = [];
+        const names: string[] = [];
+        const indexOf = (list: string[], value: string): number => {
+            const index = list.indexOf(value);
+            return index >= 0 ? index : list.push(value) - 1;
+        };
+        const exact = new Map(lineMappings.map((mapping) => [mapping.processedLine, mapping]));
+
+        const lines: SourceMapSegment[][] = [];
+        for (let line = 1; line <= lineCount; line++) {
+            const location = LineMapper.convertAbsoluteLineToSource(lineMappings, line);
+            if (!location) {
+                lines.push([]);
+                continue;
+            }
+            const source = indexOf(sources, sourceName(location.source));
+            const columns = exact.get(line)?.columns ?? [{ processedColumn: 1, originalColumn: 1 }];
+            lines.push(columns.map((column) => {
+                const segment = [column.processedColumn - 1, source, location.line - 1, column.originalColumn - 1];
+                return column.macro ? [...segment, indexOf(names, column.macro.name)] : segment;
+            }));
+        }
+        return { version: 3, file, sources, names, mappings: encodeMappings(lines) };
+    }
+
+    /**
+     * Reads the line mappings back from a source map, as an alternative to
+     * the @line directives. Each line maps to the source of its first
+     * segment; the macro definitions behind named segments are not kept.
+     * @param resolveSource - converts a source as named in the map to a path
+     * @throws when the mappings of the map are not valid
+     */
+    public static fromSourceMap(map: SourceMapV3, resolveSource: (source: string) => NormalizedPath): LineMapping[] {
+        const files = map.sources.map((source) => resolveSource(`${map.sourceRoot ?? ""}${source}`));
+        const lineMappings: LineMapping[] = [];
+        decodeMappings(map.mappings).forEach((segments, index) => {
+            const mapped = segments.filter((segment) => segment.length >= 4 && files[segment[1]] !== undefined);
+            if (mapped.length === 0) {
+                return;
+            }
+            const first = mapped[0];
+            const columns = LineMapper.significantColumns(mapped
+                .filter((segment) => segment[1] === first[1] && segment[2] === first[2])
+                .map((segment) => ({ processedColumn: segment[0] + 1, originalColumn: segment[3] + 1 })));
+            lineMappings.push({
+                processedLine: index + 1,
+                sourceFile: files[first[1]],
+                originalLine: first[2] + 1,
+                ...(columns ? { columns } : {}),
+            });
+        });
+        return lineMappings;
+    }
+
     /**
      * Finds all line mappings that reference a specific source file
      * @param lineMappings - Array of line mappings to search
@@ -132,4 +294,107 @@ export class LineMapper {
             .map(mapping => mapping.processedLine);
     }
 
+    /**
+     * Removes the @line directives from preprocessed content, leaving the
+     * code exactly as the viewer received it.
+     */
+    public static stripLineDirectives(content: string, language: ScriptLanguage = "lsl"): string {
+        return content
+            .split('\n')
+            .filter(line => LineMapper.parseLineDirective(line, language) === null)
+            .join('\n');
+    }
+
+    /**
+     * Recovers the lines of the main script from preprocessed content,
+     * dropping the @line directives along with the content of included files.
+     * Expanded macros and dropped conditional blocks cannot be recovered.
+     */
+    public static extractMainSource(content: string, language: ScriptLanguage = "lsl"): string {
+        const traced = LineMapper.traceLines(content, language);
+        return content
+            .split('\n')
+            .filter((_line, index) => traced[index] !== null && traced[index].file === undefined)
+            .join('\n');
+    }
+
+    /**
+     * Traces every line of preprocessed content to its source, with null for
+     * the @line directives themselves. Lines before the first directive
+     * belong to the main script, and a directive sets the location of the
+     * line after it. An include starts with a directive for line 1 of a new
+     * file, and a directive naming a file already being read returns to it;
+     * the first directive returning to a file not yet seen names the main
+     * script.
+     */
+    public static traceLines(content: string, language: ScriptLanguage = "lsl"): (TracedLine | null)[] {
+        const traced: (TracedLine | null)[] = [];
+        // Included files being read, innermost last
+        const open: string[] = [];
+        let mainFile: string | undefined;
+        let current: TracedLine = { line: 1 };
+
+        for (const text of content.split(/\r?\n/)) {
+            const directive = LineMapper.parseLineDirective(text, language);
+            if (!directive) {
+                traced.push(current);
+                current = { ...current, line: current.line + 1 };
+                continue;
+            }
+            traced.push(null);
+
+            let file: string | undefined = directive.file;
+            const index = open.indexOf(directive.file);
+            if (directive.file === mainFile) {
+                open.length = 0;
+                file = undefined;
+            } else if (index >= 0) {
+                open.length = index + 1;
+            } else if (directive.line === 1) {
+                open.push(directive.file);
+            } else if (mainFile === undefined) {
+                mainFile = directive.file;
+                open.length = 0;
+                file = undefined;
+            } else {
+                // A jump within an included file that had not been announced
+                open.push(directive.file);
+            }
+            current = file === undefined ? { line: directive.line } : { file, line: directive.line };
+        }
+        return traced;
+    }
+
+    /**
+     * Traces every line of output that has its mappings on the side, such as
+     * compacted output, in the form given by traceLines().
+     * @param mainFile - the file of the main script, traced without a file
+     */
+    public static traceMappings(lineMappings: LineMapping[], lineCount: number, mainFile: NormalizedPath): (TracedLine | null)[] {
+        const traced: (TracedLine | null)[] = [];
+        for (let line = 1; line <= lineCount; line++) {
+            const source = LineMapper.convertAbsoluteLineToSource(lineMappings, line);
+            if (!source) {
+                traced.push({ line });
+            } else {
+                traced.push(source.source === mainFile ? { line: source.line } : { file: source.source, line: source.line });
+            }
+        }
+        return traced;
+    }
+
+    /**
+     * Parses a `// @line 12 "file"` (or `-- @line` for SLua) directive.
+     * @returns null when the line is not a directive
+     */
+    public static parseLineDirective(line: string, language: ScriptLanguage = "lsl"): { line: number; file: string } | null {
+        const commentPrefix = language === "lsl" ? "// @line" : "-- @line";
+        const trimmed = line.trim();
+        if (!trimmed.startsWith(commentPrefix)) {
+            return null;
+        }
+        const match = trimmed.substring(commentPrefix.length).match(/^\s*(\d+)\s+"([^"]*)"/);
+        return match ? { line: parseInt(match[1]), file: match[2] } : null;
+    }
+
 }
@@ -50,6 +50,7 @@ export interface MacroDefinition {
     isFunctionLike: boolean;
     dynamicValue?: (context: MacroExpansionContext) => string;
     isSystem?: boolean;
+    sourceFile?: NormalizedPath;    // where the macro was defined, for mapping expanded code back
 }
 
 //#endregion
@@ -353,7 +354,7 @@ export class MacroProcessor {
         expandingSet.add(name);
 
         // Get a copy of the macro body tokens
-        const bodyTokens = macro.body.map(t => t.clone());
+        const bodyTokens = this.copyBody(macro);
 
         // Recursively expand any macros in the body
         const expanded = this.expandTokens(bodyTokens, context, expandingSet, diagnostics, sourceFile);
@@ -428,7 +429,7 @@ export class MacroProcessor {
 
         // Substitute parameters with arguments
         let bodyTokens = this.substituteParameters(
-            macro.body,
+            this.copyBody(macro),
             parameters,
             args,
             context,
@@ -444,6 +445,18 @@ export class MacroProcessor {
         return expanded;
     }
 
+    /**
+     * Copy the body of a macro for expansion, noting on each token where
+     * it was written in the definition
+     */
+    private copyBody(macro: MacroDefinition): Token[] {
+        return macro.body.map(t => {
+            const copy = t.clone();
+            copy.expansion = { macro: macro.name, sourceFile: macro.sourceFile, line: t.line, column: t.column };
+            return copy;
+        });
+    }
+
     /**
      * Recursively expand macros in a token array
      * Returns a new array with all macros expanded
@@ -0,0 +1,111 @@
+/**
+ * @file messageschema.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Minimal runtime schemas for JSON message params. A schema lists every
+ * property of the TypeScript interface it describes, so the two cannot drift
+ * apart without a compile error.
+ */
+
+//-------------------------------------------------------------
+export type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+export interface FieldSchema {
+    type: FieldType;
+    optional?: boolean;
+    items?: FieldSchema;                // element schema for arrays
+    fields?: MessageSchema<any>;        // property schemas for objects with known properties
+    values?: FieldSchema;               // value schema for objects used as maps
+}
+
+/** One field schema for every property of T, optional or not. */
+export type MessageSchema<T> = { [K in keyof Required<T>]: FieldSchema };
+
+export interface SchemaViolation {
+    field: string;
+    message: string;
+}
+
+//-------------------------------------------------------------
+function describe(value: unknown): string {
+    if (value === null) {
+        return "null";
+    }
+    if (typeof value === "number" && !Number.isFinite(value)) {
+        return String(value);
+    }
+    return Array.isArray(value) ? "array" : typeof value;
+}
+
+function checkField(schema: FieldSchema, value: unknown, field: string): SchemaViolation | undefined {
+    if (value === undefined || value === null) {
+        return schema.optional ? undefined : { field, message: "is required" };
+    }
+
+    switch (schema.type) {
+        case "number":
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                return { field, message: `expected number, got ${describe(value)}` };
+            }
+            return undefined;
+        case "string":
+        case "boolean":
+            if (typeof value !== schema.type) {
+                return { field, message: `expected ${schema.type}, got ${describe(value)}` };
+            }
+            return undefined;
+        case "array":
+            if (!Array.isArray(value)) {
+                return { field, message: `expected array, got ${describe(value)}` };
+            }
+            if (schema.items) {
+                for (let i = 0; i < value.length; i++) {
+                    const violation = checkField(schema.items, value[i], `${field}[${i}]`);
+                    if (violation) {
+                        return violation;
+                    }
+                }
+            }
+            return undefined;
+        case "object":
+            if (typeof value !== "object" || Array.isArray(value)) {
+                return { field, message: `expected object, got ${describe(value)}` };
+            }
+            if (schema.fields) {
+                return validateMessage(schema.fields, value, field);
+            }
+            if (schema.values) {
+                for (const [key, entry] of Object.entries(value)) {
+                    const violation = checkField(schema.values, entry, `${field}.${key}`);
+                    if (violation) {
+                        return violation;
+                    }
+                }
+            }
+            return undefined;
+    }
+}
+
+/**
+ * Checks a value against a schema, returning the first offending field.
+ * Properties the schema does not know about are allowed, so that newer
+ * viewers can add fields without breaking older clients.
+ */
+export function validateMessage(
+    schema: MessageSchema<any>,
+    value: unknown,
+    path: string = "params",
+): SchemaViolation | undefined {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return { field: path, message: `expected object, got ${describe(value)}` };
+    }
+
+    const record = value as { [key: string]: unknown };
+    for (const [key, field] of Object.entries(schema) as [string, FieldSchema][]) {
+        const violation = checkField(field, record[key], `${path}.${key}`);
+        if (violation) {
+            return violation;
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,201 @@
+/**
+ * @file outputcompactor.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Compaction of preprocessed output: comments and @line directives are
+ * dropped, indentation and runs of blank space are collapsed and blank
+ * lines removed, so that more of the size limit is left for code. Line
+ * breaks are kept, every output line still comes from a single source
+ * line, and the mappings from output lines to sources are returned on the
+ * side instead of in the text.
+ */
+import { NormalizedPath } from "../interfaces/hostinterface";
+import { ScriptLanguage } from "./languageservice";
+import { Token, TokenType, getLanguageConfig } from "./lexer";
+import { ColumnMapping, LineMapper, LineMapping, MacroReference } from "./linemapper";
+import { MessageSchema, validateMessage } from "./messageschema";
+
+/** Extension added to the name of a compacted output for its line map. */
+export const LINE_MAP_SIDECAR_EXTENSION = ".map.json";
+
+export interface CompactedOutput {
+    source: string;
+    mappings: LineMapping[];    // one per output line
+}
+
+/** The line map kept next to compacted output, for the content with `hash`. */
+export interface LineMapSidecar {
+    hash: string;
+    mappings: LineMapping[];
+}
+
+const MacroReferenceSchema: MessageSchema<MacroReference> = {
+    name: { type: "string" },
+    sourceFile: { type: "string", optional: true },
+    line: { type: "number" },
+    column: { type: "number" },
+};
+
+const ColumnMappingSchema: MessageSchema<ColumnMapping> = {
+    processedColumn: { type: "number" },
+    originalColumn: { type: "number" },
+    length: { type: "number", optional: true },
+    macro: { type: "object", optional: true, fields: MacroReferenceSchema },
+};
+
+const LineMappingSchema: MessageSchema<LineMapping> = {
+    processedLine: { type: "number" },
+    sourceFile: { type: "string" },
+    originalLine: { type: "number" },
+    columns: { type: "array", optional: true, items: { type: "object", fields: ColumnMappingSchema } },
+};
+
+const LineMapSidecarSchema: MessageSchema<LineMapSidecar> = {
+    hash: { type: "string" },
+    mappings: { type: "array", items: { type: "object", fields: LineMappingSchema } },
+};
+
+const WORD = /[A-Za-z0-9_]/;
+const SYMBOL = /[-+*/%=!<>&|^~.#?:]/;
+
+//-------------------------------------------------------------
+// Whether two tokens separated by blank space in the output would read
+// differently once joined, as in `integer x`, `a - -b`, `1 ..` or `[ [`
+function needsSpace(previous: Token, next: Token): boolean {
+    const before = previous.value[previous.value.length - 1];
+    const after = next.value[0];
+    return (WORD.test(before) && WORD.test(after))
+        || (SYMBOL.test(before) && SYMBOL.test(after))
+        || (before === "[" && after === "[")
+        || (previous.type === TokenType.NUMBER_LITERAL && after === ".")
+        || (before === "." && /[0-9]/.test(after));
+}
+
+function countBreaks(value: string): number {
+    return value.split("\n").length - 1;
+}
+
+/**
+ * Compacts the output tokens of the parser. The @line directives in the
+ * tokens give the source of each line, as they do for the full output.
+ * @param resolveFile - converts the file of a directive to a path
+ */
+export function compactTokens(
+    tokens: Token[],
+    language: ScriptLanguage,
+    sourceFile: NormalizedPath,
+    resolveFile: (file: string) => NormalizedPath = (file) => file as NormalizedPath,
+    lineEnding: string = "\n",
+): CompactedOutput {
+    const directivePrefix = `${getLanguageConfig(language).lineCommentPrefix} @line `;
+    const lines: string[] = [];
+    const mappings: LineMapping[] = [];
+
+    let file = sourceFile;
+    let line = 1;
+    let text = "";
+    let origin: LineMapping | undefined;    // source of the first token on the current line
+    let columns: ColumnMapping[] = [];
+    let previous: Token | undefined;
+    let spaced = false;
+
+    const endLine = (): void => {
+        if (origin) {
+            lines.push(text);
+            const lineColumns = LineMapper.significantColumns(columns);
+            mappings.push({ ...origin, processedLine: lines.length, ...(lineColumns ? { columns: lineColumns } : {}) });
+        }
+        text = "";
+        origin = undefined;
+        columns = [];
+        previous = undefined;
+        spaced = false;
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (token.type === TokenType.LINE_COMMENT && token.value.startsWith(directivePrefix)) {
+            const match = token.value.substring(directivePrefix.length).trim().match(/^(\d+)\s+"([^"]+)"$/);
+            if (match) {
+                line = parseInt(match[1], 10);
+                file = resolveFile(match[2]);
+            }
+            if (tokens[i + 1]?.type === TokenType.NEWLINE) {
+                i++;
+            }
+            continue;
+        }
+
+        if (token.type === TokenType.NEWLINE) {
+            endLine();
+            line++;
+            continue;
+        }
+
+        const breaks = countBreaks(token.value);
+        if (token.isComment() || token.type === TokenType.WHITESPACE) {
+            // Code either side of a comment spanning lines stays on its own line
+            if (breaks > 0) {
+                endLine();
+                line += breaks;
+            }
+            spaced = true;
+            continue;
+        }
+        if (token.value.length === 0) {
+            continue;
+        }
+
+        if (!origin) {
+            origin = { processedLine: 0, sourceFile: file, originalLine: line };
+        } else if (spaced && previous && needsSpace(previous, token)) {
+            text += " ";
+        }
+
+        columns.push(LineMapper.mapTokenColumn(token, text.length + 1));
+
+        // A literal spanning lines, such as a Luau long string, is kept whole
+        const parts = token.value.split(/\r?\n/);
+        text += parts[0];
+        for (let part = 1; part < parts.length; part++) {
+            endLine();
+            origin = { processedLine: 0, sourceFile: file, originalLine: line + part };
+            text = parts[part];
+        }
+        line += breaks;
+        previous = token;
+        spaced = false;
+    }
+    endLine();
+
+    return {
+        source: lines.length > 0 ? lines.join(lineEnding) + lineEnding : "",
+        mappings,
+    };
+}
+
+//-------------------------------------------------------------
+export function serializeLineMapSidecar(hash: string, mappings: LineMapping[]): string {
+    const sidecar: LineMapSidecar = { hash, mappings };
+    return JSON.stringify(sidecar);
+}
+
+/**
+ * Reads a line map back.
+ * @returns the mappings, or undefined when the map is invalid or was made
+ * for other content than `hash`
+ */
+export function parseLineMapSidecar(text: string, hash: string): LineMapping[] | undefined {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+    if (validateMessage(LineMapSidecarSchema, value) !== undefined) {
+        return undefined;
+    }
+    const sidecar = value as LineMapSidecar;
+    return sidecar.hash === hash ? sidecar.mappings : undefined;
+}
@@ -16,6 +16,8 @@ import { MacroProcessor, MacroExpansionContext } from './macroprocessor';
 import { ConditionalProcessor } from './conditionalprocessor';
 import { IncludeProcessor, IncludeState } from './includeprocessor';
 import { DiagnosticCollector, PreprocessorDiagnostic, ErrorCodes } from './diagnostics';
+import { compactTokens } from './outputcompactor';
+import { ColumnMapping, LineMapper } from './linemapper';
 
 //#region Parser State
 
@@ -67,6 +69,8 @@ export interface ParserResult {
     diagnostics: PreprocessorDiagnostic[];
     /** Whether preprocessing succeeded (no errors) */
     success: boolean;
+    /** Whether the source was compacted, its mappings are then the only record of where lines came from */
+    compacted?: boolean;
 }
 
 /**
@@ -76,6 +80,7 @@ export interface LineMapping {
     processedLine: number;
     originalLine: number;
     sourceFile: NormalizedPath;
+    columns?: ColumnMapping[];
 }
 
 /**
@@ -327,13 +332,15 @@ export class Parser {
             this.appendRequireTableCleanup();
         }
 
+        const compact = this.isTopLevelParser && (this.config?.getConfig<boolean>(ConfigKey.PreprocessorCompactOutput) ?? false);
         return {
-            source: this.reconstructSource(),
+            source: compact ? this.compactSource() : this.reconstructSource(),
             mappings: this.mappings,
             includes: this.includes,
             macros: this.macroInfos,
             diagnostics: this.diagnostics.getAll(),
             success: !this.diagnostics.hasErrors(),
+            compacted: compact,
         };
     }
 
@@ -566,6 +573,7 @@ export class Parser {
             parameters,
             body,
             isFunctionLike,
+            sourceFile: parser.sourceFile,
         });
 
         parser.macroInfos.push({
@@ -897,9 +905,10 @@ export class Parser {
                 token.column
             );
             if (expanded) {
-                for (const expandedToken of expanded) {
-                    this.outputTokens.push(expandedToken);
-                }
+                // The invocation runs to the closing parenthesis when it is on the same line
+                const close = this.tokens[this.position - 1];
+                const length = close?.line === token.line ? close.column + close.length - token.column : token.value.length;
+                this.emitExpansion(expanded, { line: token.line, column: token.column, length });
             } else {
                 // Expansion failed (diagnostics already added by MacroProcessor)
                 // Emit the original token
@@ -925,15 +934,27 @@ export class Parser {
                 token.column
             );
             if (expanded) {
-                for (const expandedToken of expanded) {
-                    this.outputTokens.push(expandedToken);
-                }
+                this.emitExpansion(expanded, { line: token.line, column: token.column, length: token.value.length });
             }
             // Simple macros don't advance position
             return false;
         }
     }
 
+    /**
+     * Emit the tokens of a macro expansion, noting the invocation on those
+     * that came from a macro body. Tokens from nested expansions keep the
+     * outermost invocation, the one written in the source.
+     */
+    private emitExpansion(expanded: Token[], call: { line: number; column: number; length: number }): void {
+        for (const expandedToken of expanded) {
+            if (expandedToken.expansion && !expandedToken.expansion.call) {
+                expandedToken.expansion = { ...expandedToken.expansion, call };
+            }
+            this.outputTokens.push(expandedToken);
+        }
+    }
+
     //#endregion
 
     //#region Token Stream Navigation
@@ -1408,7 +1429,8 @@ export class Parser {
     //#region Output Generation
 
     /**
-     * Reconstruct source code from output tokens and build line mappings from @line directives
+     * Reconstruct source code from output tokens and build line mappings from @line directives.
+     * Lines where macro expansion moved tokens get the columns of those tokens as well.
      */
     private reconstructSource(): string {
         // Clear existing mappings - we'll rebuild from @line directives
@@ -1417,6 +1439,8 @@ export class Parser {
         let outputLine = 1;
         let currentSourceFile: NormalizedPath = this.sourceFile;
         let currentSourceLine = 1;
+        let outputColumn = 1;
+        let columns: ColumnMapping[] = [];
         const languageConfig = getLanguageConfig(this.language);
         const lineDirectivePrefix = `${languageConfig.lineCommentPrefix} @line `;
 
@@ -1444,20 +1468,49 @@ export class Parser {
 
             // For newlines, add mapping and increment counters
             if (token.type === TokenType.NEWLINE) {
+                const lineColumns = LineMapper.significantColumns(columns);
                 this.mappings.push({
                     processedLine: outputLine,
                     originalLine: currentSourceLine,
                     sourceFile: currentSourceFile,
+                    ...(lineColumns ? { columns: lineColumns } : {}),
                 });
                 outputLine++;
                 currentSourceLine++;
+                outputColumn = 1;
+                columns = [];
+                continue;
             }
+
+            const text = token.emit();
+            if (!token.isWhitespaceOrNewline() && !token.isComment() && text.length > 0) {
+                columns.push(LineMapper.mapTokenColumn(token, outputColumn));
+            }
+            const lastBreak = text.lastIndexOf('\n');
+            outputColumn = lastBreak >= 0 ? text.length - lastBreak : outputColumn + text.length;
         }
 
         // Generate the source code
         return this.outputTokens.map(t => t.emit()).join('');
     }
 
+    /**
+     * Compact source code from output tokens, without comments or @line
+     * directives. The mappings are built from the directives as they are
+     * left out.
+     */
+    private compactSource(): string {
+        const compacted = compactTokens(
+            this.outputTokens,
+            this.language,
+            this.sourceFile,
+            (file) => this.host?.uriToFileName(file) ?? file as NormalizedPath,
+            this.lineEnding,
+        );
+        this.mappings = compacted.mappings;
+        return compacted.source;
+    }
+
     /**
      * Parse line mappings from preprocessed content containing @line directives.
      * This is the reverse operation of reconstructSource() - it reads @line directives
@@ -1592,7 +1645,7 @@ export class Parser {
 
         // Add @line directive to reset to main file
         const languageConfig = getLanguageConfig(this.language);
-        const lineDirectiveText = `${languageConfig.lineCommentPrefix}@line 1 "${this.sourceFile}"`;
+        const lineDirectiveText = `${languageConfig.lineCommentPrefix} @line 1 "${this.formatPathForLineDirective(this.sourceFile)}"`;
         tableTokens.push(new Token(TokenType.LINE_COMMENT, lineDirectiveText, line, 1, lineDirectiveText.length));
         tableTokens.push(new Token(TokenType.NEWLINE, '\n', line, lineDirectiveText.length + 1, 1));
 
@@ -0,0 +1,191 @@
+/**
+ * @file reversesync.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Maps edits made to a viewer copy back to the files it was preprocessed
+ * from. The copy last written to the viewer is compared line by line with
+ * its current content, and each changed region is located in the source
+ * files through the @line directives of the written copy.
+ */
+import { ScriptLanguage } from "./languageservice";
+import { LineMapper, TracedLine } from "./linemapper";
+
+/**
+ * Replaces source lines [startLine, endLine) with `lines`. Lines are
+ * 1-based; an empty range inserts before startLine.
+ */
+export interface SourceEdit {
+    file?: string;
+    startLine: number;
+    endLine: number;
+    lines: string[];
+}
+
+/** A changed region that could not be traced to a single place in one file. */
+export interface UnmappedChange {
+    processedLine: number;      // first changed line of the viewer copy, 1-based
+    lines: string[];
+    reason: string;
+}
+
+export interface ReverseSyncResult {
+    edits: SourceEdit[];
+    unmapped: UnmappedChange[];
+}
+
+export interface Hunk {
+    beforeStart: number;        // 0-based, end exclusive
+    beforeEnd: number;
+    afterStart: number;
+    afterEnd: number;
+}
+
+//-------------------------------------------------------------
+export function splitLines(content: string): string[] {
+    return content.split(/\r?\n/);
+}
+
+/**
+ * The regions where two line lists differ. Common leading and trailing
+ * lines are skipped before the longest common subsequence is computed
+ * for what remains.
+ */
+export function diffLines(before: string[], after: string[]): Hunk[] {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < before.length - prefix && suffix < after.length - prefix &&
+        before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const a = before.slice(prefix, before.length - suffix);
+    const b = after.slice(prefix, after.length - suffix);
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[i] === b[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    const hunks: Hunk[] = [];
+    let i = 0;
+    let j = 0;
+    let hunk: Hunk | undefined;
+    const close = (): void => {
+        if (hunk) {
+            hunk.beforeEnd = prefix + i;
+            hunk.afterEnd = prefix + j;
+            hunks.push(hunk);
+            hunk = undefined;
+        }
+    };
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            close();
+            i++;
+            j++;
+            continue;
+        }
+        hunk ??= { beforeStart: prefix + i, beforeEnd: 0, afterStart: prefix + j, afterEnd: 0 };
+        if (j >= b.length || (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    close();
+    return hunks;
+}
+
+function sourceEdit(at: TracedLine, startLine: number, endLine: number, lines: string[]): SourceEdit {
+    return at.file === undefined ? { startLine, endLine, lines } : { file: at.file, startLine, endLine, lines };
+}
+
+function isMain(line: TracedLine | undefined): boolean {
+    return !!line && line.file === undefined;
+}
+
+// Where lines inserted between two traced lines go. At the boundary of an
+// include the main script is preferred.
+function insertionPoint(previous: TracedLine | undefined, next: TracedLine | undefined, lines: string[]): SourceEdit {
+    if (previous && (!next || isMain(previous) || !isMain(next) || previous.file === next.file)) {
+        return sourceEdit(previous, previous.line + 1, previous.line + 1, lines);
+    }
+    if (next) {
+        return sourceEdit(next, next.line, next.line, lines);
+    }
+    return { startLine: 1, endLine: 1, lines };
+}
+
+/**
+ * Traces the differences between the copy last written to the viewer and
+ * its current content back to the source files. @line directives added
+ * or removed in the viewer are ignored.
+ */
+export function mapChangesToSources(written: string, current: string, language: ScriptLanguage): ReverseSyncResult {
+    const before = splitLines(written);
+    const after = splitLines(current);
+    const traced = LineMapper.traceLines(written, language);
+    const result: ReverseSyncResult = { edits: [], unmapped: [] };
+
+    for (const hunk of diffLines(before, after)) {
+        const lines = after.slice(hunk.afterStart, hunk.afterEnd)
+            .filter((line) => LineMapper.parseLineDirective(line, language) === null);
+        const replaced = traced.slice(hunk.beforeStart, hunk.beforeEnd)
+            .filter((line): line is TracedLine => line !== null);
+        const unmapped = (reason: string): void => {
+            result.unmapped.push({ processedLine: hunk.afterStart + 1, lines, reason });
+        };
+        // Edits that land on the same source lines cannot both be applied
+        const accept = (edit: SourceEdit): void => {
+            const overlaps = result.edits.some((other) => other.file === edit.file &&
+                edit.startLine < Math.max(other.endLine, other.startLine + 1) &&
+                other.startLine < Math.max(edit.endLine, edit.startLine + 1));
+            if (overlaps) {
+                unmapped("overlaps another change to the same source lines");
+            } else {
+                result.edits.push(edit);
+            }
+        };
+
+        if (replaced.length === 0) {
+            if (lines.length === 0) {
+                continue;
+            }
+            const previous = traced.slice(0, hunk.beforeStart).reverse().find((line) => line !== null) ?? undefined;
+            const next = traced.slice(hunk.beforeEnd).find((line) => line !== null) ?? undefined;
+            accept(insertionPoint(previous, next, lines));
+            continue;
+        }
+
+        const first = replaced[0];
+        const contiguous = replaced.every((line, index) => line.file === first.file && line.line === first.line + index);
+        if (!contiguous) {
+            unmapped("the changed lines come from more than one place in the sources");
+            continue;
+        }
+        accept(sourceEdit(first, first.line, first.line + replaced.length, lines));
+    }
+    return result;
+}
+
+/**
+ * Applies the edits for one file to its content, keeping its line endings.
+ */
+export function applySourceEdits(content: string, edits: SourceEdit[]): string {
+    const eol = content.includes("\r\n") ? "\r\n" : "\n";
+    const lines = splitLines(content);
+    const ordered = [...edits].sort((a, b) => b.startLine - a.startLine || b.endLine - a.endLine);
+    for (const edit of ordered) {
+        const start = Math.min(Math.max(edit.startLine - 1, 0), lines.length);
+        const end = Math.min(Math.max(edit.endLine - 1, start), lines.length);
+        lines.splice(start, end - start, ...edit.lines);
+    }
+    return lines.join(eol);
+}
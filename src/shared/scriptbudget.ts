@@ -0,0 +1,201 @@
+/**
+ * @file scriptbudget.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Size and memory checks for preprocessed output before it is sent to the
+ * viewer. The source size is exact; the memory use is a rough estimate
+ * from the amount of code once comments and blank space are removed, good
+ * enough to tell which include has pushed a script over its budget.
+ */
+import { ScriptLanguage } from "./languageservice";
+import { LineMapper, TracedLine } from "./linemapper";
+
+export type BudgetMode = "off" | "warn" | "block";
+
+export interface BudgetLimits {
+    sourceBytes: number;        // size of the script text the viewer accepts
+    memoryBytes: number;        // memory available to the running script
+}
+
+export const DEFAULT_BUDGET_LIMITS: Record<ScriptLanguage, BudgetLimits> = {
+    lsl: { sourceBytes: 65536, memoryBytes: 65536 },
+    luau: { sourceBytes: 65536, memoryBytes: 65536 },
+};
+
+// Memory a script uses before any of its own code, and the memory per byte
+// of code, from the sizes reported for typical compiled scripts
+const MEMORY_PROFILES: Record<ScriptLanguage, { base: number; perCodeByte: number }> = {
+    lsl: { base: 4096, perCodeByte: 1.5 },
+    luau: { base: 2048, perCodeByte: 1.25 },
+};
+
+/** What one source file adds to the output. `file` is unset for the main script. */
+export interface BudgetContribution {
+    file?: string;
+    lines: number;
+    sourceBytes: number;
+    codeBytes: number;
+}
+
+export interface BudgetProblem {
+    kind: "source" | "memory";
+    value: number;
+    limit: number;
+}
+
+export interface BudgetReport {
+    sourceBytes: number;
+    codeBytes: number;
+    estimatedMemory: number;
+    contributions: BudgetContribution[];    // largest first
+    problems: BudgetProblem[];
+}
+
+//-------------------------------------------------------------
+function byteLength(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+// The closing bracket of a Luau long bracket opening at `start`, as in
+// [[ ]] or [==[ ]==], or undefined when there is none
+function longBracketClose(content: string, start: number): string | undefined {
+    const match = /^\[(=*)\[/.exec(content.slice(start, start + 64));
+    return match ? `]${match[1]}]` : undefined;
+}
+
+/**
+ * Removes comments, keeping line breaks so that lines still line up with
+ * the original content. String literals are left as they are.
+ */
+export function stripComments(content: string, language: ScriptLanguage): string {
+    const lineComment = language === "lsl" ? "//" : "--";
+    let result = "";
+    let i = 0;
+    while (i < content.length) {
+        const char = content[i];
+        if (char === '"' || (language === "luau" && (char === "'" || char === "`"))) {
+            let end = i + 1;
+            while (end < content.length && content[end] !== char && content[end] !== "\n") {
+                end += content[end] === "\\" ? 2 : 1;
+            }
+            result += content.slice(i, end + 1);
+            i = end + 1;
+            continue;
+        }
+
+        const longString = language === "luau" && char === "[" ? longBracketClose(content, i) : undefined;
+        if (longString) {
+            const end = content.indexOf(longString, i);
+            const stop = end < 0 ? content.length : end + longString.length;
+            result += content.slice(i, stop);
+            i = stop;
+            continue;
+        }
+
+        let blockClose: string | undefined;
+        if (language === "lsl" && content.startsWith("/*", i)) {
+            blockClose = "*/";
+        } else if (language === "luau" && content.startsWith("--", i)) {
+            blockClose = longBracketClose(content, i + 2);
+        }
+        if (blockClose) {
+            const end = content.indexOf(blockClose, i + 2);
+            const stop = end < 0 ? content.length : end + blockClose.length;
+            result += content.slice(i, stop).replace(/[^\n]/g, "");
+            i = stop;
+            continue;
+        }
+
+        if (content.startsWith(lineComment, i)) {
+            const end = content.indexOf("\n", i);
+            i = end < 0 ? content.length : end;
+            continue;
+        }
+
+        result += char;
+        i++;
+    }
+    return result;
+}
+
+function codeLength(line: string): number {
+    return byteLength(line.trim().replace(/\s+/g, " "));
+}
+
+export function estimateMemory(codeBytes: number, language: ScriptLanguage): number {
+    const profile = MEMORY_PROFILES[language];
+    return Math.round(profile.base + codeBytes * profile.perCodeByte);
+}
+
+/**
+ * Measures preprocessed output against the limits, attributing every line
+ * to the file it came from through the @line directives, or through
+ * `traced` for output without them.
+ */
+export function analyzeBudget(
+    content: string,
+    language: ScriptLanguage,
+    limits: BudgetLimits,
+    traced: (TracedLine | null)[] = LineMapper.traceLines(content, language),
+): BudgetReport {
+    const lines = content.split(/\r?\n/);
+    const code = stripComments(content, language).split(/\r?\n/);
+
+    const byFile = new Map<string | undefined, BudgetContribution>();
+    let codeBytes = 0;
+    lines.forEach((text, index) => {
+        // The directives belong to the file that follows them
+        const origin = traced[index] ?? traced.slice(index + 1).find((line) => line !== null) ?? { line: 1 };
+        let contribution = byFile.get(origin.file);
+        if (!contribution) {
+            contribution = { ...(origin.file === undefined ? {} : { file: origin.file }), lines: 0, sourceBytes: 0, codeBytes: 0 };
+            byFile.set(origin.file, contribution);
+        }
+        const lineCode = traced[index] ? codeLength(code[index] ?? "") : 0;
+        contribution.lines++;
+        contribution.sourceBytes += byteLength(text) + (index < lines.length - 1 ? 1 : 0);
+        contribution.codeBytes += lineCode;
+        codeBytes += lineCode;
+    });
+
+    const sourceBytes = byteLength(content);
+    const estimatedMemory = estimateMemory(codeBytes, language);
+    const problems: BudgetProblem[] = [];
+    if (sourceBytes > limits.sourceBytes) {
+        problems.push({ kind: "source", value: sourceBytes, limit: limits.sourceBytes });
+    }
+    if (estimatedMemory > limits.memoryBytes) {
+        problems.push({ kind: "memory", value: estimatedMemory, limit: limits.memoryBytes });
+    }
+
+    return {
+        sourceBytes,
+        codeBytes,
+        estimatedMemory,
+        contributions: [...byFile.values()].sort((a, b) => b.sourceBytes - a.sourceBytes),
+        problems,
+    };
+}
+
+export function describeBudgetProblem(problem: BudgetProblem): string {
+    return problem.kind === "source"
+        ? `Output is ${problem.value} bytes, over the ${problem.limit} byte source limit`
+        : `Estimated memory use is ${problem.value} bytes, over the ${problem.limit} byte memory budget`;
+}
+
+/**
+ * A table of what each file adds to the output, for the log.
+ */
+export function formatBudgetReport(report: BudgetReport, nameOf: (file?: string) => string): string[] {
+    const lines = [
+        `Output ${report.sourceBytes} bytes, ${report.codeBytes} bytes of code, estimated memory ${report.estimatedMemory} bytes`,
+    ];
+    for (const contribution of report.contributions) {
+        const share = report.sourceBytes > 0 ? Math.round(contribution.sourceBytes * 100 / report.sourceBytes) : 0;
+        lines.push(
+            `  ${nameOf(contribution.file)}: ${contribution.sourceBytes} bytes (${share}%), ` +
+            `${contribution.codeBytes} bytes of code, ${contribution.lines} lines`,
+        );
+    }
+    return lines;
+}
@@ -0,0 +1,125 @@
+/**
+ * @file scriptconsole.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Messages scripts send with llOwnerSay and on the debug channel, as the
+ * viewer reports them in runtime.debug: grouping by object and script,
+ * matching against filter and highlight patterns, and the text an export
+ * is written as.
+ */
+import { NormalizedPath } from "../interfaces/hostinterface";
+import { StructuredLogEntry } from "./structuredlog";
+
+export interface ConsoleMessage {
+    timestamp: number;
+    objectId: string;
+    objectName: string;
+    scriptId: string;
+    script?: string;            // master file name, when the script is synced
+    message: string;
+    log?: StructuredLogEntry;   // when the message follows the structured log convention
+    source?: NormalizedPath;    // the file the log entry names
+}
+
+export interface ConsoleScriptGroup {
+    scriptId: string;
+    script?: string;
+    messages: ConsoleMessage[];
+}
+
+export interface ConsoleObjectGroup {
+    objectId: string;
+    objectName: string;         // as last reported
+    scripts: ConsoleScriptGroup[];
+}
+
+//-------------------------------------------------------------
+/**
+ * A pattern typed by the user: `/body/flags` is a regular expression,
+ * anything else matches as text regardless of case.
+ * @throws SyntaxError when the regular expression is not valid
+ */
+export function compileConsolePattern(pattern: string): RegExp {
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) {
+        // Matching is global so that every occurrence can be highlighted
+        const flags = regex[2].includes("g") ? regex[2] : `${regex[2]}g`;
+        return new RegExp(regex[1], flags);
+    }
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi");
+}
+
+export function matchesConsolePattern(message: ConsoleMessage, pattern: RegExp): boolean {
+    pattern.lastIndex = 0;
+    const matched = pattern.test(message.message) || pattern.test(message.objectName) || (message.script !== undefined && pattern.test(message.script));
+    pattern.lastIndex = 0;
+    return matched;
+}
+
+/**
+ * The ranges of `text` matched by any of the patterns, as start and end
+ * offsets in order. Overlapping matches are merged.
+ */
+export function findHighlights(text: string, patterns: RegExp[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    for (const pattern of patterns) {
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            if (match[0].length === 0) {
+                pattern.lastIndex++;
+                continue;
+            }
+            ranges.push([match.index, match.index + match[0].length]);
+        }
+        pattern.lastIndex = 0;
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([...range]);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Groups messages by object, then by script, keeping the order in which
+ * each object and script was first heard from.
+ */
+export function groupConsoleMessages(messages: ConsoleMessage[]): ConsoleObjectGroup[] {
+    const objects = new Map<string, ConsoleObjectGroup>();
+    for (const message of messages) {
+        let object = objects.get(message.objectId);
+        if (!object) {
+            object = { objectId: message.objectId, objectName: message.objectName, scripts: [] };
+            objects.set(message.objectId, object);
+        }
+        object.objectName = message.objectName;
+
+        let script = object.scripts.find((group) => group.scriptId === message.scriptId);
+        if (!script) {
+            script = { scriptId: message.scriptId, messages: [] };
+            object.scripts.push(script);
+        }
+        if (message.script) {
+            script.script = message.script;
+        }
+        script.messages.push(message);
+    }
+    return Array.from(objects.values());
+}
+
+export function formatConsoleMessage(message: ConsoleMessage): string {
+    const script = message.script ?? message.scriptId;
+    return `[${new Date(message.timestamp).toISOString()}] ${message.objectName} (${message.objectId}) ${script}: ${message.message}`;
+}
+
+export function formatConsoleExport(messages: ConsoleMessage[], lineEnding: string = "\n"): string {
+    return messages.map((message) => formatConsoleMessage(message) + lineEnding).join("");
+}
@@ -0,0 +1,120 @@
+/**
+ * @file scriptmanifest.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * The workspace manifest (sl-scripts.json) maps scripts the viewer opens to
+ * their master files. Entries match a script by ID, or by name optionally
+ * narrowed to the object holding it. Master paths are relative to the
+ * manifest and use forward slashes.
+ */
+import { MessageSchema, validateMessage } from "./messageschema";
+
+export const MANIFEST_FILE_NAME = "sl-scripts.json";
+
+export interface ManifestEntry {
+    master: string;
+    name?: string;              // script name, with or without its extension
+    scriptIds?: string[];       // script IDs known to belong to this master
+    object?: string;            // name of the object holding the script
+}
+
+export interface ScriptManifest {
+    scripts: ManifestEntry[];
+}
+
+/** What is known about a script the viewer opened. */
+export interface ScriptIdentity {
+    scriptName: string;
+    scriptId: string;
+    extension: string;
+    objectName?: string;
+}
+
+const ManifestEntrySchema: MessageSchema<ManifestEntry> = {
+    master: { type: "string" },
+    name: { type: "string", optional: true },
+    scriptIds: { type: "array", optional: true, items: { type: "string" } },
+    object: { type: "string", optional: true },
+};
+
+const ScriptManifestSchema: MessageSchema<ScriptManifest> = {
+    scripts: { type: "array", items: { type: "object", fields: ManifestEntrySchema } },
+};
+
+//-------------------------------------------------------------
+/**
+ * Parses manifest content. Properties the manifest does not use are kept,
+ * so writing it back does not lose them.
+ * @throws Error describing the first problem found
+ */
+export function parseManifest(content: string): ScriptManifest {
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Invalid JSON in ${MANIFEST_FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const violation = validateMessage(ScriptManifestSchema, manifest, "manifest");
+    if (violation) {
+        throw new Error(`Invalid ${MANIFEST_FILE_NAME}: ${violation.field} ${violation.message}`);
+    }
+    return manifest as ScriptManifest;
+}
+
+export function serializeManifest(manifest: ScriptManifest): string {
+    return JSON.stringify(manifest, null, 4) + "\n";
+}
+
+function matchesName(entry: ManifestEntry, script: ScriptIdentity): boolean {
+    return entry.name === script.scriptName || entry.name === `${script.scriptName}.${script.extension}`;
+}
+
+/**
+ * The entries a script maps to. An entry listing the script ID wins over
+ * name matches; a name match with an object name only counts when the
+ * object of the script is known and the same.
+ */
+export function findManifestEntries(manifest: ScriptManifest, script: ScriptIdentity): ManifestEntry[] {
+    const byId = manifest.scripts.filter((entry) => entry.scriptIds?.includes(script.scriptId));
+    if (byId.length > 0) {
+        return byId;
+    }
+
+    return manifest.scripts.filter((entry) =>
+        matchesName(entry, script) && (entry.object === undefined || entry.object === script.objectName),
+    );
+}
+
+/**
+ * Records that a script belongs to a master, adding its ID to the entry
+ * for that master and name or creating one.
+ * @returns the entry holding the script ID
+ */
+export function rememberMaster(manifest: ScriptManifest, script: ScriptIdentity, master: string): ManifestEntry {
+    // A script ID belongs to one master only
+    for (const entry of manifest.scripts) {
+        if (entry.master !== master && entry.scriptIds?.includes(script.scriptId)) {
+            entry.scriptIds = entry.scriptIds.filter((id) => id !== script.scriptId);
+            if (entry.scriptIds.length === 0) {
+                delete entry.scriptIds;
+            }
+        }
+    }
+
+    let entry = manifest.scripts.find((candidate) =>
+        candidate.master === master && (candidate.name === undefined || matchesName(candidate, script)),
+    );
+    if (!entry) {
+        entry = {
+            master,
+            name: script.scriptName,
+            ...(script.objectName ? { object: script.objectName } : {}),
+        };
+        manifest.scripts.push(entry);
+    }
+    if (!entry.scriptIds?.includes(script.scriptId)) {
+        entry.scriptIds = [...(entry.scriptIds ?? []), script.scriptId];
+    }
+    return entry;
+}
@@ -0,0 +1,151 @@
+/**
+ * @file sourcemap.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * The Source Map v3 format: the JSON document and its base64 VLQ encoded
+ * mappings. Building a map from the line mappings of the preprocessor, and
+ * reading one back, is left to LineMapper.
+ */
+import { MessageSchema, validateMessage } from "./messageschema";
+
+/** Extension added to the name of an output for its source map. */
+export const SOURCE_MAP_EXTENSION = ".map";
+
+export interface SourceMapV3 {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources: string[];
+    names: string[];
+    mappings: string;
+    x_hash?: string;            // sha256 of the output the map was made for
+}
+
+/**
+ * A segment with its fields as absolute values: the output column, then
+ * optionally the source index, source line and source column, and the name
+ * index. All are zero-based.
+ */
+export type SourceMapSegment = number[];
+
+const SourceMapSchema: MessageSchema<SourceMapV3> = {
+    version: { type: "number" },
+    file: { type: "string", optional: true },
+    sourceRoot: { type: "string", optional: true },
+    sources: { type: "array", items: { type: "string" } },
+    names: { type: "array", items: { type: "string" } },
+    mappings: { type: "string" },
+    x_hash: { type: "string", optional: true },
+};
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+//-------------------------------------------------------------
+export function encodeVlq(value: number): string {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+    let encoded = "";
+    do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) {
+            digit |= 32;
+        }
+        encoded += BASE64[digit];
+    } while (vlq > 0);
+    return encoded;
+}
+
+/**
+ * Decodes the values of one segment.
+ * @throws when the segment is not valid base64 VLQ
+ */
+export function decodeVlq(segment: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of segment) {
+        const digit = BASE64.indexOf(char);
+        if (digit < 0) {
+            throw new Error(`Invalid character '${char}' in source map mappings`);
+        }
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+            continue;
+        }
+        const magnitude = value >>> 1;
+        values.push(value & 1 ? -magnitude : magnitude);
+        value = 0;
+        shift = 0;
+    }
+    if (shift > 0) {
+        throw new Error("Truncated value in source map mappings");
+    }
+    return values;
+}
+
+/**
+ * Encodes the segments of each output line. Output columns are relative
+ * within a line, the other fields to the previous segment that has them.
+ */
+export function encodeMappings(lines: SourceMapSegment[][]): string {
+    const previous = [0, 0, 0, 0];
+    return lines.map((segments) => {
+        let column = 0;
+        return segments.map((segment) => {
+            let encoded = encodeVlq(segment[0] - column);
+            column = segment[0];
+            for (let field = 1; field < segment.length; field++) {
+                encoded += encodeVlq(segment[field] - previous[field - 1]);
+                previous[field - 1] = segment[field];
+            }
+            return encoded;
+        }).join(",");
+    }).join(";");
+}
+
+/**
+ * Decodes mappings into the segments of each output line, with absolute
+ * values.
+ * @throws when the mappings are not valid
+ */
+export function decodeMappings(mappings: string): SourceMapSegment[][] {
+    const previous = [0, 0, 0, 0];
+    return mappings.split(";").map((line) => {
+        let column = 0;
+        return line.split(",").filter((segment) => segment.length > 0).map((segment) => {
+            const values = decodeVlq(segment);
+            if (values.length !== 1 && values.length !== 4 && values.length !== 5) {
+                throw new Error(`Source map segment with ${values.length} fields`);
+            }
+            column += values[0];
+            const decoded = [column];
+            for (let field = 1; field < values.length; field++) {
+                previous[field - 1] += values[field];
+                decoded.push(previous[field - 1]);
+            }
+            return decoded;
+        });
+    });
+}
+
+export function serializeSourceMap(map: SourceMapV3): string {
+    return JSON.stringify(map);
+}
+
+/**
+ * Reads a source map.
+ * @returns undefined when the text is not a version 3 source map
+ */
+export function parseSourceMap(text: string): SourceMapV3 | undefined {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+    if (validateMessage(SourceMapSchema, value, "sourceMap") !== undefined || (value as SourceMapV3).version !== 3) {
+        return undefined;
+    }
+    return value as SourceMapV3;
+}
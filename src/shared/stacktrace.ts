@@ -0,0 +1,113 @@
+/**
+ * @file stacktrace.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Stack traces of SLua runtime errors. The viewer reports each frame as a
+ * line of text with a line number in the script as it was compiled, the
+ * preprocessed output, which the line mappings take back to the file the
+ * code was written in. Frames in modules pulled in with require() are on
+ * lines inside the `__require_table[N]` functions and map to the module.
+ */
+import { NormalizedPath } from "../interfaces/hostinterface";
+import { LineMapper, LineMapping } from "./linemapper";
+
+export interface StackFrame {
+    text: string;               // the frame as reported
+    chunk?: string;             // script the frame is in, absent for native code
+    line?: number;              // line in the compiled script
+    functionName?: string;
+    moduleId?: number;          // N of a `__require_table[N]` the frame names
+}
+
+export interface MappedStackFrame extends StackFrame {
+    source?: NormalizedPath;    // file and line the code was written at, when known
+    originalLine?: number;
+}
+
+// `main.luau:7`, `main.luau:7 function foo`, `[string "main"]:7: in function 'foo'`
+const SCRIPT_FRAME = /^(\[string "(.*)"\]|[^\s:][^:]*?):(\d+):?(?:\s+(.*))?$/;
+// `[C] function print`, `[C]: in function 'error'`
+const NATIVE_FRAME = /^\[C\](?::-?\d+)?:?(?:\s+(.*))?$/;
+const REQUIRE_TABLE_ENTRY = /__require_table\[(\d+)\]/;
+
+//-------------------------------------------------------------
+function parseFunctionName(description: string | undefined): string | undefined {
+    const name = description
+        ?.replace(/^in\s+/, "")
+        .replace(/^function\s+/, "")
+        .replace(/^'(.*)'$/, "$1")
+        .trim();
+    if (!name || name === "main chunk" || /^<.*>$/.test(name)) {
+        return undefined;
+    }
+    return name;
+}
+
+/**
+ * Reads one frame of a stack trace.
+ * @returns the frame, with only its text when the format is not known
+ */
+export function parseStackFrame(text: string): StackFrame {
+    const trimmed = text.trim();
+    const moduleMatch = trimmed.match(REQUIRE_TABLE_ENTRY);
+    const frame: StackFrame = { text: trimmed };
+    if (moduleMatch) {
+        frame.moduleId = parseInt(moduleMatch[1], 10);
+    }
+
+    const native = trimmed.match(NATIVE_FRAME);
+    if (native) {
+        const functionName = parseFunctionName(native[1]);
+        return functionName ? { ...frame, functionName } : frame;
+    }
+
+    const script = trimmed.match(SCRIPT_FRAME);
+    if (!script) {
+        return frame;
+    }
+    const functionName = parseFunctionName(script[4]);
+    return {
+        ...frame,
+        chunk: script[2] ?? script[1],
+        line: parseInt(script[3], 10),
+        ...(functionName ? { functionName } : {}),
+    };
+}
+
+/**
+ * Parses the frames of a stack and maps each to its source. Without line
+ * mappings the script was not preprocessed and lines are those of the
+ * master file.
+ */
+export function symbolicateStack(
+    stack: string[],
+    lineMappings: LineMapping[] | undefined,
+    masterFile: NormalizedPath,
+): MappedStackFrame[] {
+    return stack.filter((text) => text.trim().length > 0).map((text) => {
+        const frame: MappedStackFrame = parseStackFrame(text);
+        if (frame.line === undefined) {
+            return frame;
+        }
+        if (!lineMappings || lineMappings.length === 0) {
+            return { ...frame, source: masterFile, originalLine: frame.line };
+        }
+        const location = LineMapper.convertAbsoluteLineToSource(lineMappings, frame.line);
+        return location ? { ...frame, source: location.source, originalLine: location.line } : frame;
+    });
+}
+
+/**
+ * A one line description of a frame: where it is in the sources, or the
+ * frame as reported when it could not be mapped.
+ */
+export function describeStackFrame(frame: MappedStackFrame, fileName: (file: NormalizedPath) => string = (file) => file): string {
+    const name = frame.functionName && !REQUIRE_TABLE_ENTRY.test(frame.functionName)
+        ? frame.functionName
+        : frame.moduleId !== undefined ? "module body" : undefined;
+    if (!frame.source || frame.originalLine === undefined) {
+        return frame.text;
+    }
+    const location = `${fileName(frame.source)}:${frame.originalLine}`;
+    return name ? `${name} (${location})` : location;
+}
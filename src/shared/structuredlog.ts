@@ -0,0 +1,141 @@
+/**
+ * @file structuredlog.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * An opt-in convention for debug messages that say where in the sources
+ * they were sent from, built with the __FILE__ (or __SHORTFILE__) and
+ * __LINE__ system macros. Either a tagged prefix:
+ *
+ *     LOG|warn|door|<file>|<line>|payload
+ *
+ * or a JSON object with the level as `log`:
+ *
+ *     {"log":"warn","tag":"door","file":<file>,"line":<line>,"msg":"payload"}
+ *
+ * where `data` may be given instead of, or besides, `msg`.
+ */
+import * as path from "path";
+import { NormalizedPath, normalizePath } from "../interfaces/hostinterface";
+import { MessageSchema, validateMessage } from "./messageschema";
+
+export const STRUCTURED_LOG_PREFIX = "LOG|";
+
+/** What is done with debug messages following the convention. */
+export type StructuredLogMode = "off" | "console" | "diagnostics" | "decorations";
+
+export type StructuredLogLevel = "debug" | "info" | "warn" | "error";
+
+export interface StructuredLogEntry {
+    level: StructuredLogLevel;
+    tag?: string;
+    file: string;               // as sent by the script
+    line: number;
+    payload: string;
+}
+
+interface StructuredLogRecord {
+    log: string;
+    tag?: string;
+    file: string;
+    line: number;
+    msg?: string;
+}
+
+const StructuredLogRecordSchema: MessageSchema<StructuredLogRecord> = {
+    log: { type: "string" },
+    tag: { type: "string", optional: true },
+    file: { type: "string" },
+    line: { type: "number" },
+    msg: { type: "string", optional: true },
+};
+
+const LEVELS: { [name: string]: StructuredLogLevel } = {
+    debug: "debug",
+    trace: "debug",
+    info: "info",
+    warn: "warn",
+    warning: "warn",
+    error: "error",
+    err: "error",
+};
+
+//-------------------------------------------------------------
+function parseLevel(level: string): StructuredLogLevel | undefined {
+    return LEVELS[level.trim().toLowerCase()];
+}
+
+function parseTagged(message: string): StructuredLogEntry | undefined {
+    // The payload is everything after the fifth separator, bars included
+    const fields = message.substring(STRUCTURED_LOG_PREFIX.length).split("|");
+    if (fields.length < 4) {
+        return undefined;
+    }
+    const [levelName, tag, file, lineText, ...payload] = fields;
+    const level = parseLevel(levelName);
+    if (!level || !/^\s*\d+\s*$/.test(lineText) || file.trim().length === 0) {
+        return undefined;
+    }
+    return {
+        level,
+        ...(tag.trim().length > 0 ? { tag: tag.trim() } : {}),
+        file: file.trim(),
+        line: parseInt(lineText, 10),
+        payload: payload.join("|"),
+    };
+}
+
+function parseJson(message: string): StructuredLogEntry | undefined {
+    let value: unknown;
+    try {
+        value = JSON.parse(message);
+    } catch {
+        return undefined;
+    }
+    if (validateMessage(StructuredLogRecordSchema, value, "log") !== undefined) {
+        return undefined;
+    }
+    const record = value as StructuredLogRecord & { data?: unknown };
+    const level = parseLevel(record.log);
+    if (!level) {
+        return undefined;
+    }
+    const data = record.data === undefined ? undefined : JSON.stringify(record.data);
+    return {
+        level,
+        ...(record.tag ? { tag: record.tag } : {}),
+        file: record.file,
+        line: record.line,
+        payload: [record.msg, data].filter((part) => part !== undefined).join(" "),
+    };
+}
+
+/**
+ * Reads a debug message sent following the convention.
+ * @returns the entry, or undefined for any other message
+ */
+export function parseStructuredLog(message: string): StructuredLogEntry | undefined {
+    const trimmed = message.trim();
+    if (trimmed.startsWith(STRUCTURED_LOG_PREFIX)) {
+        return parseTagged(trimmed);
+    }
+    if (trimmed.startsWith("{")) {
+        return parseJson(trimmed);
+    }
+    return undefined;
+}
+
+/**
+ * Finds the source a log entry names among the files a script was built
+ * from. __FILE__ gives the full path, __SHORTFILE__ only the name, which
+ * is used when a single source has it.
+ */
+export function resolveLogSource(file: string, sources: NormalizedPath[]): NormalizedPath | undefined {
+    const full = normalizePath(file);
+    const exact = sources.find((source) => source === full);
+    if (exact) {
+        return exact;
+    }
+    const name = path.basename(file.replace(/\\/g, "/"));
+    const named = sources.filter((source) => path.basename(source) === name);
+    return named.length === 1 ? named[0] : undefined;
+}
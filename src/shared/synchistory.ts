@@ -0,0 +1,145 @@
+/**
+ * @file synchistory.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * The index of snapshots of what was written to the viewer. Each snapshot
+ * records a version of a master's preprocessed output, the includes it was
+ * built from and the compile results reported for it. The content itself
+ * is stored separately, once per hash, so the index only tells which
+ * hashes are still needed.
+ */
+import { MessageSchema, validateMessage } from "./messageschema";
+
+export const HISTORY_INDEX_FILE = "history.json";
+
+export interface SnapshotError {
+    row: number;
+    column: number;
+    level: string;
+    message: string;
+}
+
+/** The compile result the viewer reported for one script. */
+export interface SnapshotCompilation {
+    success: boolean;
+    running: boolean;
+    errors?: SnapshotError[];
+}
+
+export interface SyncSnapshot {
+    id: string;
+    master: string;             // normalized path of the master file
+    hash: string;               // sha256 of the content written
+    timestamp: number;          // ms since the epoch of the last write
+    includes: string[];
+    scriptIds: string[];        // scripts the content was written to
+    results: { [scriptId: string]: SnapshotCompilation };
+}
+
+export interface SyncHistoryIndex {
+    snapshots: SyncSnapshot[];
+}
+
+const SnapshotErrorSchema: MessageSchema<SnapshotError> = {
+    row: { type: "number" },
+    column: { type: "number" },
+    level: { type: "string" },
+    message: { type: "string" },
+};
+
+const SnapshotCompilationSchema: MessageSchema<SnapshotCompilation> = {
+    success: { type: "boolean" },
+    running: { type: "boolean" },
+    errors: { type: "array", optional: true, items: { type: "object", fields: SnapshotErrorSchema } },
+};
+
+const SyncSnapshotSchema: MessageSchema<SyncSnapshot> = {
+    id: { type: "string" },
+    master: { type: "string" },
+    hash: { type: "string" },
+    timestamp: { type: "number" },
+    includes: { type: "array", items: { type: "string" } },
+    scriptIds: { type: "array", items: { type: "string" } },
+    results: { type: "object", values: { type: "object", fields: SnapshotCompilationSchema } },
+};
+
+const SyncHistoryIndexSchema: MessageSchema<SyncHistoryIndex> = {
+    snapshots: { type: "array", items: { type: "object", fields: SyncSnapshotSchema } },
+};
+
+//-------------------------------------------------------------
+/**
+ * @throws Error describing the first problem found
+ */
+export function parseHistory(content: string): SyncHistoryIndex {
+    let index: unknown;
+    try {
+        index = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Invalid JSON in ${HISTORY_INDEX_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const violation = validateMessage(SyncHistoryIndexSchema, index, "history");
+    if (violation) {
+        throw new Error(`Invalid ${HISTORY_INDEX_FILE}: ${violation.field} ${violation.message}`);
+    }
+    return index as SyncHistoryIndex;
+}
+
+export function serializeHistory(index: SyncHistoryIndex): string {
+    return JSON.stringify(index, null, 4) + "\n";
+}
+
+/** The snapshots of a master, newest first. */
+export function snapshotsOf(index: SyncHistoryIndex, master: string): SyncSnapshot[] {
+    return index.snapshots
+        .filter((snapshot) => snapshot.master === master)
+        .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Adds a snapshot, keeping at most `limit` per master. Writing the same
+ * content as the newest snapshot of the master updates that snapshot
+ * instead, dropping the results of the scripts written again.
+ * @returns the hashes no snapshot refers to any more
+ */
+export function addSnapshot(index: SyncHistoryIndex, snapshot: SyncSnapshot, limit: number): string[] {
+    const latest = snapshotsOf(index, snapshot.master)[0];
+    if (latest && latest.hash === snapshot.hash) {
+        latest.timestamp = snapshot.timestamp;
+        latest.includes = snapshot.includes;
+        latest.scriptIds = [...new Set([...latest.scriptIds, ...snapshot.scriptIds])];
+        for (const scriptId of snapshot.scriptIds) {
+            delete latest.results[scriptId];
+        }
+        return [];
+    }
+
+    index.snapshots.push(snapshot);
+    const evicted = snapshotsOf(index, snapshot.master).slice(Math.max(limit, 1));
+    if (evicted.length === 0) {
+        return [];
+    }
+    index.snapshots = index.snapshots.filter((entry) => !evicted.includes(entry));
+
+    const referenced = new Set(index.snapshots.map((entry) => entry.hash));
+    return [...new Set(evicted.map((entry) => entry.hash))].filter((hash) => !referenced.has(hash));
+}
+
+/**
+ * Attaches a compile result to the newest snapshot written to the script.
+ * @returns the snapshot updated, if any
+ */
+export function recordCompilation(
+    index: SyncHistoryIndex,
+    scriptId: string,
+    result: SnapshotCompilation,
+): SyncSnapshot | undefined {
+    const snapshot = index.snapshots
+        .filter((entry) => entry.scriptIds.includes(scriptId))
+        .reduce<SyncSnapshot | undefined>((newest, entry) => !newest || entry.timestamp > newest.timestamp ? entry : newest, undefined);
+    if (snapshot) {
+        snapshot.results[scriptId] = result;
+    }
+    return snapshot;
+}
@@ -0,0 +1,65 @@
+/**
+ * @file syncstate.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * The table of active syncs as kept in the workspace state, so that the
+ * association between master files and viewer temp files survives a
+ * reload of the window. Entries are checked one by one when read back, an
+ * invalid entry is dropped without losing the others.
+ */
+import { MessageSchema, validateMessage } from "./messageschema";
+import { ScriptLanguage } from "./languageservice";
+
+const LANGUAGES: string[] = ["lsl", "luau"] satisfies ScriptLanguage[];
+
+export interface PersistedScript {
+    id: string;
+    viewerFile: string;
+    hash?: string;              // sha256 of the content last written to the viewer file
+}
+
+export interface PersistedSync {
+    master: string;
+    language: ScriptLanguage;
+    scripts: PersistedScript[];
+}
+
+const PersistedScriptSchema: MessageSchema<PersistedScript> = {
+    id: { type: "string" },
+    viewerFile: { type: "string" },
+    hash: { type: "string", optional: true },
+};
+
+const PersistedSyncSchema: MessageSchema<PersistedSync> = {
+    master: { type: "string" },
+    language: { type: "string" },
+    scripts: { type: "array", items: { type: "object", fields: PersistedScriptSchema } },
+};
+
+//-------------------------------------------------------------
+/**
+ * Reads the persisted syncs back, with the reason each dropped entry was
+ * invalid.
+ */
+export function parsePersistedSyncs(value: unknown): { syncs: PersistedSync[]; problems: string[] } {
+    const syncs: PersistedSync[] = [];
+    const problems: string[] = [];
+    if (value === undefined || value === null) {
+        return { syncs, problems };
+    }
+    if (!Array.isArray(value)) {
+        return { syncs, problems: ["expected a list of syncs"] };
+    }
+
+    value.forEach((entry, index) => {
+        const violation = validateMessage(PersistedSyncSchema, entry, `syncs[${index}]`);
+        if (violation) {
+            problems.push(`${violation.field} ${violation.message}`);
+        } else if (!LANGUAGES.includes((entry as PersistedSync).language)) {
+            problems.push(`syncs[${index}].language ${(entry as PersistedSync).language} is not a script language`);
+        } else {
+            syncs.push(entry as PersistedSync);
+        }
+    });
+    return { syncs, problems };
+}
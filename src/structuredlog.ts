@@ -0,0 +1,112 @@
+/**
+ * @file structuredlog.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Shows the structured log entries in the script console at the source
+ * lines that sent them, as diagnostics or as text at the end of the line,
+ * depending on debug.structuredLogs. Each line shows its last entry, and
+ * clearing the console clears them.
+ */
+import * as vscode from "vscode";
+import { ConfigService } from "./configservice";
+import { ConfigKey } from "./interfaces/configinterface";
+import { ScriptConsole } from "./scriptconsole";
+import { ConsoleMessage } from "./shared/scriptconsole";
+import { StructuredLogLevel, StructuredLogMode } from "./shared/structuredlog";
+import { errorLevelToSeverity, uriToNormalizedPath } from "./utils";
+
+const LEVEL_COLORS: { [level in StructuredLogLevel]: string } = {
+    error: "editorError.foreground",
+    warn: "editorWarning.foreground",
+    info: "editorInfo.foreground",
+    debug: "descriptionForeground",
+};
+
+function describeEntry(message: ConsoleMessage): string {
+    const log = message.log!;
+    return log.tag ? `[${log.tag}] ${log.payload}` : log.payload;
+}
+
+export class StructuredLogMarkers implements vscode.Disposable {
+    private scriptConsole: ScriptConsole;
+    private diagnostics = vscode.languages.createDiagnosticCollection("Second Life Log");
+    private decoration = vscode.window.createTextEditorDecorationType({
+        after: { margin: "0 0 0 2em", fontStyle: "italic" },
+    });
+    private disposables: vscode.Disposable[] = [];
+    // Last entry of each source line, by file
+    private entries: Map<string, Map<number, ConsoleMessage>> = new Map();
+
+    public constructor(scriptConsole: ScriptConsole) {
+        this.scriptConsole = scriptConsole;
+        this.disposables.push(
+            scriptConsole.onDidChange(() => this.refresh()),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.decorate()),
+        );
+        this.refresh();
+    }
+
+    dispose(): void {
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.diagnostics.dispose();
+        this.decoration.dispose();
+    }
+
+    private getMode(): StructuredLogMode {
+        return ConfigService.getInstance().getConfig<StructuredLogMode>(ConfigKey.DebugStructuredLogs) ?? "off";
+    }
+
+    public refresh(): void {
+        this.entries = new Map();
+        for (const message of this.scriptConsole.getLogEntries()) {
+            let lines = this.entries.get(message.source!);
+            if (!lines) {
+                lines = new Map();
+                this.entries.set(message.source!, lines);
+            }
+            lines.set(message.log!.line, message);
+        }
+
+        this.diagnostics.clear();
+        if (this.getMode() === "diagnostics") {
+            for (const [file, lines] of this.entries) {
+                this.diagnostics.set(vscode.Uri.file(file), Array.from(lines.values()).map((message) => {
+                    const log = message.log!;
+                    const line = Math.max(0, log.line - 1);
+                    const diagnostic = new vscode.Diagnostic(
+                        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+                        describeEntry(message),
+                        errorLevelToSeverity(log.level === "warn" ? "warning" : log.level),
+                    );
+                    diagnostic.source = `Second Life Log (${message.objectName})`;
+                    return diagnostic;
+                }));
+            }
+        }
+        this.decorate();
+    }
+
+    private decorate(): void {
+        const show = this.getMode() === "decorations";
+        for (const editor of vscode.window.visibleTextEditors) {
+            const lines = show ? this.entries.get(uriToNormalizedPath(editor.document.uri)) : undefined;
+            const options: vscode.DecorationOptions[] = Array.from(lines?.values() ?? [])
+                .filter((message) => message.log!.line <= editor.document.lineCount)
+                .map((message) => {
+                    const log = message.log!;
+                    const line = Math.max(0, log.line - 1);
+                    return {
+                        range: new vscode.Range(line, Number.MAX_SAFE_INTEGER, line, Number.MAX_SAFE_INTEGER),
+                        hoverMessage: `${log.level.toUpperCase()} from ${message.objectName} at ${new Date(message.timestamp).toLocaleTimeString()}`,
+                        renderOptions: {
+                            after: {
+                                contentText: `${log.level}: ${describeEntry(message)}`,
+                                color: new vscode.ThemeColor(LEVEL_COLORS[log.level]),
+                            },
+                        },
+                    };
+                });
+            editor.setDecorations(this.decoration, options);
+        }
+    }
+}
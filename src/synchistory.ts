@@ -0,0 +1,389 @@
+/**
+ * @file synchistory.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Keeps snapshots of what was written to the viewer in workspace storage,
+ * and shows them in a tree where any two can be compared and an older one
+ * sent to the viewer again.
+ */
+import * as vscode from "vscode";
+import * as path from "path";
+import { ConfigService } from "./configservice";
+import { ConfigKey } from "./interfaces/configinterface";
+import { CompilationResult } from "./viewereditwsclient";
+import {
+    HISTORY_INDEX_FILE,
+    SyncHistoryIndex,
+    SyncSnapshot,
+    addSnapshot,
+    parseHistory,
+    recordCompilation,
+    serializeHistory,
+    snapshotsOf,
+} from "./shared/synchistory";
+import { SynchService } from "./synchservice";
+import { LineMapping } from "./shared/linemapper";
+import { LINE_MAP_SIDECAR_EXTENSION, parseLineMapSidecar, serializeLineMapSidecar } from "./shared/outputcompactor";
+import { logInfo, logWarning, showInfoMessage, showWarningMessage } from "./utils";
+
+const HISTORY_FOLDER = "sync-history";
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+export class SyncHistory implements vscode.Disposable {
+    private static instance: SyncHistory;
+    private folder?: vscode.Uri;
+    private index: SyncHistoryIndex = { snapshots: [] };
+    private loaded: Promise<void> = Promise.resolve();
+    // Index updates are written one at a time, in order
+    private writes: Promise<void> = Promise.resolve();
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    public static getInstance(): SyncHistory {
+        if (!SyncHistory.instance) {
+            SyncHistory.instance = new SyncHistory();
+        }
+        return SyncHistory.instance;
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    public initialize(storageUri: vscode.Uri): void {
+        this.folder = vscode.Uri.joinPath(storageUri, HISTORY_FOLDER);
+        this.loaded = this.load(this.folder);
+    }
+
+    private async load(folder: vscode.Uri): Promise<void> {
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, HISTORY_INDEX_FILE));
+            this.index = parseHistory(Buffer.from(content).toString("utf8"));
+        } catch (error) {
+            if (!(error instanceof vscode.FileSystemError && error.code === "FileNotFound")) {
+                logWarning(`Sync history reset: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            this.index = { snapshots: [] };
+        }
+        this._onDidChange.fire();
+    }
+
+    private save(): Promise<void> {
+        const folder = this.folder;
+        if (!folder) {
+            return this.writes;
+        }
+        const content = serializeHistory(this.index);
+        this.writes = this.writes.then(async () => {
+            await vscode.workspace.fs.createDirectory(folder);
+            await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folder, HISTORY_INDEX_FILE), Buffer.from(content, "utf8"));
+        }).catch((error) => {
+            logWarning(`Unable to save the sync history: ${error instanceof Error ? error.message : String(error)}`);
+        });
+        return this.writes;
+    }
+
+    private getLimit(): number {
+        return ConfigService.getInstance().getConfig<number>(ConfigKey.SyncHistoryLimit, DEFAULT_HISTORY_LIMIT) ?? DEFAULT_HISTORY_LIMIT;
+    }
+
+    //====================================================================
+    //#region Recording
+    /**
+     * Records content written to the viewer copies of the given scripts.
+     * The content is stored once per hash, named with the extension of the
+     * master so that it opens in the right language, with the line map of
+     * compacted content next to it.
+     */
+    public async record(
+        master: string,
+        hash: string,
+        content: string,
+        includes: string[],
+        scriptIds: string[],
+        lineMap?: LineMapping[],
+    ): Promise<void> {
+        const limit = this.getLimit();
+        if (!this.folder || limit <= 0) {
+            return;
+        }
+        await this.loaded;
+
+        const timestamp = Date.now();
+        const snapshot: SyncSnapshot = {
+            id: `${timestamp}-${hash.slice(0, 12)}`,
+            master,
+            hash,
+            timestamp,
+            includes,
+            scriptIds,
+            results: {},
+        };
+        try {
+            const contentUri = this.contentUri(snapshot);
+            await vscode.workspace.fs.createDirectory(this.folder);
+            await vscode.workspace.fs.writeFile(contentUri, Buffer.from(content, "utf8"));
+            if (lineMap) {
+                await vscode.workspace.fs.writeFile(this.lineMapUri(snapshot), Buffer.from(serializeLineMapSidecar(hash, lineMap), "utf8"));
+            }
+        } catch (error) {
+            logWarning(`Unable to store a sync snapshot of ${path.basename(master)}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const extension = path.extname(master);
+        for (const hash of addSnapshot(this.index, snapshot, limit)) {
+            for (const name of [`${hash}${extension}`, `${hash}${LINE_MAP_SIDECAR_EXTENSION}`]) {
+                await Promise.resolve(vscode.workspace.fs.delete(vscode.Uri.joinPath(this.folder, name)))
+                    .catch(() => undefined);
+            }
+        }
+        await this.save();
+        this._onDidChange.fire();
+    }
+
+    public async recordCompilation(result: CompilationResult): Promise<void> {
+        await this.loaded;
+        const { script_id: scriptId, success, running, errors } = result;
+        if (recordCompilation(this.index, scriptId, { success, running, ...(errors ? { errors } : {}) })) {
+            await this.save();
+            this._onDidChange.fire();
+        }
+    }
+
+    public async clear(): Promise<void> {
+        await this.loaded;
+        this.index = { snapshots: [] };
+        if (this.folder) {
+            await Promise.resolve(vscode.workspace.fs.delete(this.folder, { recursive: true })).catch(() => undefined);
+        }
+        this._onDidChange.fire();
+    }
+    //#endregion
+
+    //====================================================================
+    //#region Queries
+    public async getMasters(): Promise<string[]> {
+        await this.loaded;
+        return [...new Set(this.index.snapshots.map((snapshot) => snapshot.master))].sort();
+    }
+
+    public async getSnapshots(master: string): Promise<SyncSnapshot[]> {
+        await this.loaded;
+        return snapshotsOf(this.index, master);
+    }
+
+    public contentUri(snapshot: SyncSnapshot): vscode.Uri {
+        if (!this.folder) {
+            throw new Error("The sync history is not available");
+        }
+        return vscode.Uri.joinPath(this.folder, `${snapshot.hash}${path.extname(snapshot.master)}`);
+    }
+
+    public async readContent(snapshot: SyncSnapshot): Promise<string> {
+        return Buffer.from(await vscode.workspace.fs.readFile(this.contentUri(snapshot))).toString("utf8");
+    }
+
+    private lineMapUri(snapshot: SyncSnapshot): vscode.Uri {
+        if (!this.folder) {
+            throw new Error("The sync history is not available");
+        }
+        return vscode.Uri.joinPath(this.folder, `${snapshot.hash}${LINE_MAP_SIDECAR_EXTENSION}`);
+    }
+
+    /**
+     * The line map of a snapshot of compacted content, undefined for content
+     * with @line directives.
+     */
+    public async readLineMap(snapshot: SyncSnapshot): Promise<LineMapping[] | undefined> {
+        try {
+            const text = Buffer.from(await vscode.workspace.fs.readFile(this.lineMapUri(snapshot))).toString("utf8");
+            return parseLineMapSidecar(text, snapshot.hash);
+        } catch {
+            return undefined;
+        }
+    }
+    //#endregion
+}
+
+//====================================================================
+//#region Tree view
+export type SyncHistoryNode =
+    | { kind: "master"; master: string }
+    | { kind: "snapshot"; snapshot: SyncSnapshot };
+
+export function describeSnapshot(snapshot: SyncSnapshot): string {
+    const results = Object.values(snapshot.results);
+    if (results.length === 0) {
+        return "no compile result";
+    }
+    const failed = results.filter((result) => !result.success);
+    if (failed.length === 0) {
+        return "compiled";
+    }
+    const errors = failed.reduce((count, result) => count + (result.errors?.length ?? 0), 0);
+    return `failed, ${errors} error(s)`;
+}
+
+export class SyncHistoryTreeProvider implements vscode.TreeDataProvider<SyncHistoryNode> {
+    private history: SyncHistory;
+
+    public readonly onDidChangeTreeData: vscode.Event<void>;
+
+    public constructor(history: SyncHistory) {
+        this.history = history;
+        this.onDidChangeTreeData = history.onDidChange;
+    }
+
+    public async getChildren(node?: SyncHistoryNode): Promise<SyncHistoryNode[]> {
+        if (!node) {
+            return (await this.history.getMasters()).map((master) => ({ kind: "master", master }));
+        }
+        if (node.kind === "master") {
+            return (await this.history.getSnapshots(node.master)).map((snapshot) => ({ kind: "snapshot", snapshot }));
+        }
+        return [];
+    }
+
+    public getTreeItem(node: SyncHistoryNode): vscode.TreeItem {
+        if (node.kind === "master") {
+            const item = new vscode.TreeItem(path.basename(node.master), vscode.TreeItemCollapsibleState.Collapsed);
+            item.description = vscode.workspace.asRelativePath(path.dirname(node.master));
+            item.resourceUri = vscode.Uri.file(node.master);
+            item.contextValue = "syncHistoryMaster";
+            return item;
+        }
+
+        const snapshot = node.snapshot;
+        const item = new vscode.TreeItem(new Date(snapshot.timestamp).toLocaleString(), vscode.TreeItemCollapsibleState.None);
+        const failed = Object.values(snapshot.results).some((result) => !result.success);
+        item.description = `${snapshot.hash.slice(0, 8)} · ${describeSnapshot(snapshot)}`;
+        item.iconPath = new vscode.ThemeIcon(failed ? "error" : "history");
+        item.tooltip = [
+            `${path.basename(snapshot.master)} written to ${snapshot.scriptIds.length} script(s)`,
+            `sha256 ${snapshot.hash}`,
+            ...(snapshot.includes.length > 0 ? ["Includes:", ...snapshot.includes.map((include) => `  ${include}`)] : []),
+        ].join("\n");
+        item.contextValue = "syncSnapshot";
+        item.command = {
+            command: "second-life-scripting.openSyncSnapshot",
+            title: "Open Snapshot",
+            arguments: [node],
+        };
+        return item;
+    }
+}
+//#endregion
+
+//====================================================================
+//#region Commands
+interface SnapshotPick extends vscode.QuickPickItem {
+    snapshot: SyncSnapshot;
+}
+
+function snapshotPicks(snapshots: SyncSnapshot[]): SnapshotPick[] {
+    return snapshots.map((snapshot) => ({
+        label: new Date(snapshot.timestamp).toLocaleString(),
+        description: `${snapshot.hash.slice(0, 8)} · ${describeSnapshot(snapshot)}`,
+        snapshot,
+    }));
+}
+
+// The snapshot of a tree node, or one picked from the history of a master
+async function resolveSnapshot(node: SyncHistoryNode | undefined, placeHolder: string): Promise<SyncSnapshot | undefined> {
+    if (node?.kind === "snapshot") {
+        return node.snapshot;
+    }
+
+    const history = SyncHistory.getInstance();
+    let master = node?.kind === "master" ? node.master : undefined;
+    if (!master) {
+        const masters = await history.getMasters();
+        if (masters.length === 0) {
+            showInfoMessage("Nothing has been synced to the viewer yet.");
+            return undefined;
+        }
+        master = masters.length === 1 ? masters[0] : (await vscode.window.showQuickPick(
+            masters.map((entry) => ({ label: path.basename(entry), description: vscode.workspace.asRelativePath(entry), master: entry })),
+            { placeHolder: "Select the master file" },
+        ))?.master;
+    }
+    if (!master) {
+        return undefined;
+    }
+    return (await vscode.window.showQuickPick(snapshotPicks(await history.getSnapshots(master)), { placeHolder }))?.snapshot;
+}
+
+function snapshotTitle(snapshot: SyncSnapshot): string {
+    return `${path.basename(snapshot.master)} (${new Date(snapshot.timestamp).toLocaleTimeString()})`;
+}
+
+export async function openSyncSnapshot(node?: SyncHistoryNode): Promise<void> {
+    const snapshot = await resolveSnapshot(node, "Select the snapshot to open");
+    if (snapshot) {
+        await vscode.window.showTextDocument(SyncHistory.getInstance().contentUri(snapshot), { preview: true });
+    }
+}
+
+/**
+ * Diffs a snapshot against another of the same master, the one before it
+ * offered first.
+ */
+export async function compareSyncSnapshots(node?: SyncHistoryNode): Promise<void> {
+    const history = SyncHistory.getInstance();
+    const snapshot = await resolveSnapshot(node, "Select the snapshot to compare");
+    if (!snapshot) {
+        return;
+    }
+
+    const snapshots = await history.getSnapshots(snapshot.master);
+    const older = snapshots.slice(snapshots.indexOf(snapshot) + 1);
+    const newer = snapshots.slice(0, snapshots.indexOf(snapshot)).reverse();
+    if (older.length + newer.length === 0) {
+        showInfoMessage(`There is no other snapshot of ${path.basename(snapshot.master)} to compare with.`);
+        return;
+    }
+    const other = (await vscode.window.showQuickPick(snapshotPicks([...older, ...newer]), {
+        placeHolder: `Compare ${snapshotTitle(snapshot)} with`,
+    }))?.snapshot;
+    if (!other) {
+        return;
+    }
+
+    const [before, after] = other.timestamp < snapshot.timestamp ? [other, snapshot] : [snapshot, other];
+    await vscode.commands.executeCommand(
+        "vscode.diff",
+        history.contentUri(before),
+        history.contentUri(after),
+        `${snapshotTitle(before)} ↔ ${snapshotTitle(after)}`,
+        { preview: false },
+    );
+}
+
+/**
+ * Writes an older snapshot to the viewer copies it was written to before.
+ * The next save of the master replaces it.
+ */
+export async function resendSyncSnapshot(node?: SyncHistoryNode): Promise<void> {
+    const snapshot = await resolveSnapshot(node, "Select the snapshot to send to the viewer");
+    if (!snapshot) {
+        return;
+    }
+
+    const sync = SynchService.getInstance().findSyncByMasterFilePath(snapshot.master);
+    if (!sync) {
+        showWarningMessage(`${path.basename(snapshot.master)} is not synced with the viewer, open it from the viewer first.`);
+        return;
+    }
+
+    const history = SyncHistory.getInstance();
+    const content = await history.readContent(snapshot);
+    const written = await sync.resend(content, snapshot.scriptIds, snapshot.includes, await history.readLineMap(snapshot));
+    if (written.length === 0) {
+        showWarningMessage(`None of the scripts the snapshot of ${path.basename(snapshot.master)} was written to are synced now.`);
+        return;
+    }
+    logInfo(`Sent the snapshot of ${path.basename(snapshot.master)} from ${new Date(snapshot.timestamp).toISOString()} to the viewer`);
+}
+//#endregion
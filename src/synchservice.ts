@@ -9,49 +9,104 @@ import { SCRIPT_FILE_PATTERN, ConfigService } from "./configservice";
 import { ConfigKey } from "./interfaces/configinterface";
 import {
     ViewerEditWSClient,
+    ViewerEndpoint,
+    DEFAULT_VIEWER_PORT,
+    endpointToUrl,
     CompilationResult,
-    SessionHandshake,
-    SessionHandshakeResponse,
-    SessionDisconnect,
-    ScriptSubscribe,
-    ScriptSubscribeResponse,
     ScriptUnsubscribe,
     SyntaxChange,
     RuntimeDebug,
     RuntimeError,
 } from "./viewereditwsclient";
+import {
+    ViewerSession,
+    ViewerSessionHandlers,
+    SessionState,
+    SubscriptionResult,
+} from "./viewersession";
 import {
     hasWorkspace,
     showInfoMessage,
     showStatusMessage,
     showWarningMessage,
     closeEditor,
+    uriExists,
     logInfo,
+    logWarning,
 } from "./utils";
-import { maybe } from "./shared/sharedutils"; // TODO: migrate needed utilities from sharedutils if required
 import { ScriptLanguage, LanguageService } from "./shared/languageservice";
 import { ScriptSync } from "./scriptsync";
+import { LineMapper } from "./shared/linemapper";
+import { ViewerChangesProvider, VIEWER_CHANGES_SCHEME } from "./viewerchanges";
+import { SyncHistory } from "./synchistory";
+import { syncIncludeDependents } from "./dependentsync";
+import { parseRecording, TrafficRecord } from "./trafficrecorder";
+import { ReplayWSClient, ReplaySummary } from "./trafficreplay";
+import { FeatureRegistry } from "./featureregistry";
+import {
+    MANIFEST_FILE_NAME,
+    ScriptManifest,
+    ScriptIdentity,
+    parseManifest,
+    serializeManifest,
+    findManifestEntries,
+    rememberMaster,
+} from "./shared/scriptmanifest";
+import { PersistedScript, parsePersistedSyncs } from "./shared/syncstate";
+import { ScriptConsole } from "./scriptconsole";
+import { StructuredLogMode, parseStructuredLog, resolveLogSource } from "./shared/structuredlog";
+import { NormalizedPath, normalizePath } from "./interfaces/hostinterface";
 
 type ParsedTempFile = { scriptName: string; scriptId: string; extension: string };
+export type { SessionState } from "./viewersession";
+
+/** The agent a script belongs to, as reported by the viewer session that owns it. */
+export type ScriptAgent = { agentId: string; agentName?: string };
+
+const SELECTED_ENDPOINT_KEY = "slVscodeEdit.selectedEndpoint";
+const ACTIVE_SYNCS_KEY = "slVscodeEdit.activeSyncs";
+const REPLAY_ENDPOINT: ViewerEndpoint = { name: "Replay", host: "replay", port: 0 };
+
+const CREATE_MASTER_ACTION = "Create Master File";
+
+// Handshake features implemented by the sync service
+const LIVE_SYNC = "live_sync";
+const ERROR_REPORTING = "error_reporting";
 
 export class SynchService implements vscode.Disposable {
     // Tracks all active sync relationships between temp files and master files
     private activeSyncs: Map<string, ScriptSync> = new Map();
+    // What each sync's writes are listened to with, disposed with the sync
+    private syncListeners: Map<ScriptSync, vscode.Disposable> = new Map();
     private context: vscode.ExtensionContext;
     private static instance: SynchService;
-    private websocket: ViewerEditWSClient | undefined;
-    private handshakeResolve?: (value: boolean, message?: string) => void;
-    private handshakePromise?: Promise<{ success: boolean; message: string }>;
     private lastActiveChange: number = 0;
     private activeSync: ScriptSync | undefined;
 
-    public viewerName?: string;
-    public viewerVersion?: string;
-    public viewerLanguages?: string[];
-    public viewerFeatures?: { [feature: string]: boolean };
-    public syntaxId?: string;
-    public agentId?: string;
-    public agentName?: string;
+    // One session per connected viewer, and the agent that owns each script ID
+    private sessions: ViewerSession[] = [];
+    private scriptOwners: Map<string, string> = new Map();
+    private scriptObjects: Map<string, string> = new Map();
+    private pendingSubscriptions: Set<string> = new Set();
+    // Viewer files being reopened for syncs restored from the last session
+    private restoringFiles: Set<string> = new Set();
+    // Viewer files of restored syncs, open without an editor
+    private restoredFiles: Set<string> = new Set();
+    // Live syncs waiting for the editor to go idle
+    private liveSyncTimers: Map<ScriptSync, NodeJS.Timeout> = new Map();
+    private sessionHandlers: ViewerSessionHandlers = {
+        onStateChange: (_session) => this._onSessionStateChange.fire(this.getSessionState()),
+        onSessionOk: (session, restoring) => this.onSessionOk(session, restoring),
+        onScriptUnsubscribe: (session, message) => this.onScriptUnsubscribe(session, message),
+        onSyntaxChange: (session, message) => this.onSyntaxChange(session, message),
+        onCompilationResult: (session, message) => this.onCompilationResult(session, message),
+        onRuntimeDebug: (session, message) => this.onRuntimeDebug(session, message),
+        onRuntimeError: (session, message) => this.onRuntimeError(session, message),
+    };
+    private _onSessionStateChange = new vscode.EventEmitter<SessionState>();
+
+    public readonly onSessionStateChange: vscode.Event<SessionState> =
+        this._onSessionStateChange.event;
 
     private disposables : vscode.Disposable[] = [];
 
@@ -72,6 +127,14 @@ export class SynchService implements vscode.Disposable {
     }
 
     dispose(): void {
+        this.disposeSyncs();
+        // Before the emitter goes, releasing a session fires it
+        this.releaseSessions("Extension shutting down");
+        this._onSessionStateChange.dispose();
+    }
+
+    // Stops syncing; the service can be activated again afterwards
+    private disposeSyncs(): void {
     // Dispose of all active script syncs
         for (const [tempFilePath, scriptSync] of this.activeSyncs) {
             try {
@@ -81,6 +144,15 @@ export class SynchService implements vscode.Disposable {
             }
         }
         this.activeSyncs.clear();
+        this.restoredFiles.clear();
+        for (const listener of this.syncListeners.values()) {
+            listener.dispose();
+        }
+        this.syncListeners.clear();
+        for (const timer of this.liveSyncTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.liveSyncTimers.clear();
         for(const disposable of this.disposables) {
             disposable.dispose();
         }
@@ -105,6 +177,10 @@ export class SynchService implements vscode.Disposable {
             (document: vscode.TextDocument) => this.onSaveTextDocument(document),
         );
 
+        const onDidChangeListener = vscode.workspace.onDidChangeTextDocument(
+            (event: vscode.TextDocumentChangeEvent) => this.onChangeTextDocument(event),
+        );
+
         const onDidChangeWindowState = vscode.window.onDidChangeWindowState(
             (windowState: vscode.WindowState) =>
                 this.onChangeWindowState(windowState),
@@ -115,6 +191,11 @@ export class SynchService implements vscode.Disposable {
                 this.onChangeActiveTextEditor(editor),
         );
 
+        this.registerFeatures();
+        this.disposables.push(vscode.workspace.registerTextDocumentContentProvider(
+            VIEWER_CHANGES_SCHEME,
+            ViewerChangesProvider.getInstance(),
+        ));
         this.initializeSyntax();
 
         // TODO: Figure out why restart isn't working on the luau-lsp server
@@ -126,8 +207,30 @@ export class SynchService implements vscode.Disposable {
         this.disposables.push(onDidCloseListener);
         this.disposables.push(onDidDeleteListener);
         this.disposables.push(onDidSaveListener);
+        this.disposables.push(onDidChangeListener);
         this.disposables.push(onDidChangeWindowState);
         this.disposables.push(onDidChangeActiveTextEditor);
+
+        this.restoreSyncs();
+    }
+
+    private registerFeatures(): void {
+        const registry = FeatureRegistry.getInstance();
+        this.disposables.push(registry.register({
+            feature: LIVE_SYNC,
+            description: "Subscribes synced scripts so the viewer reports when they go away",
+            isEnabled: () => this.isFeatureAllowed(LIVE_SYNC),
+        }));
+        this.disposables.push(registry.register({
+            feature: ERROR_REPORTING,
+            description: "Shows compile and runtime errors from the viewer as diagnostics",
+            isEnabled: () => this.isFeatureAllowed(ERROR_REPORTING),
+        }));
+    }
+
+    private isFeatureAllowed(feature: string): boolean {
+        const disabled = ConfigService.getInstance().getConfig<string[]>(ConfigKey.FeaturesDisabled) ?? [];
+        return !disabled.includes(feature);
     }
 
     private async initializeSyntax(): Promise<void> {
@@ -168,14 +271,24 @@ export class SynchService implements vscode.Disposable {
             // TODO: this may be a master file... set up an empty sync.
             return false; // Not a valid SL temp script file
         }
+        if (this.restoringFiles.has(viewerFilePath) || this.findSyncByTempFilePath(viewerFilePath)) {
+            // Already synced, for example restored from the last session
+            return true;
+        }
 
         // Look for a file in the workspace with the same name as the master script
-        let masterUri = await SynchService.findMasterFile(parsed);
+        let masterUri = await this.findMasterFile(parsed);
         if (!masterUri) {
-            // There was no master file found, we are our own master
+            // There was no master file found, we are our own master until
+            // the user creates one
             showInfoMessage(
-                `No master script found for: ${parsed.scriptName}.${parsed.extension}`,
-            );
+                `No master script found for: ${parsed.scriptName}.${parsed.extension}. Edits to the viewer copy are lost when the viewer closes it.`,
+                CREATE_MASTER_ACTION,
+            ).then((choice) => {
+                if (choice === CREATE_MASTER_ACTION) {
+                    this.createMasterFromViewer(viewerFilePath);
+                }
+            });
             masterUri = viewerDocument.uri;
         }
 
@@ -185,7 +298,9 @@ export class SynchService implements vscode.Disposable {
         let masterDoc = await SynchService.openMasterScript(masterUri);
 
         // Connection goes on in the background
-        let viewerConnecting: Promise<boolean> = this.setupConnection();
+        let viewerConnecting: Promise<boolean> = this.isConnected()
+            ? Promise.resolve(true)
+            : this.connect();
 
         viewerConnecting.then((connected) => {
             if (connected) {
@@ -217,17 +332,15 @@ export class SynchService implements vscode.Disposable {
                 parsed.scriptId,
                 viewerDocument,
             );
-            this.activeSyncs.set(masterPath, sync);
+            this.addSync(sync);
         }
+        this.restoredFiles.delete(viewerFilePath);
+        this.persistSyncs();
 
-        if (this.websocket && this.websocket.isConnected()) {
+        // Sessions still being established will subscribe every active
+        // sync, including this one, once session.ok arrives.
+        if (this.sessions.some((session) => session.isEstablished())) {
             this.sendSyncSubscription(sync);
-        } else {
-            viewerConnecting.then((connected) => {
-                if (connected) {
-                    this.sendSyncSubscription(sync);
-                }
-            });
         }
 
         return true;
@@ -242,11 +355,15 @@ export class SynchService implements vscode.Disposable {
             // No sync found for this file, we are not tracking it
             return;
         }
+        this.restoredFiles.delete(filePath);
 
         if (sync.getMasterFilePath() !== filePath) {
             // We only destroy the sync if the master file is closed
             // This is so we can continue to handle preprocessor directives while editing.
             this.activeSyncs.delete(sync.getMasterFilePath());
+            this.cancelLiveSync(sync);
+            this.syncListeners.get(sync)?.dispose();
+            this.syncListeners.delete(sync);
             sync.dispose();
         } else {
             // This is not the master file, just remove the tracking links.
@@ -260,167 +377,255 @@ export class SynchService implements vscode.Disposable {
             }
         }
 
+        this.persistSyncs();
         if (this.activeSyncs.size === 0) {
-            // There is nothing being tracked, close the websocket connection
-            if (this.websocket) {
-                if (this.websocket.isConnected()) {
-                    this.websocket.disconnect();
+            // There is nothing being tracked, close the viewer connections
+            this.releaseSessions("No scripts being synced");
+        }
+    }
+
+    private addSync(sync: ScriptSync): void {
+        this.activeSyncs.set(sync.getMasterFilePath(), sync);
+        // Keep the saved hashes current
+        this.syncListeners.get(sync)?.dispose();
+        this.syncListeners.set(sync, sync.onDidWrite(() => this.persistSyncs()));
+    }
+
+    /**
+     * Saves the sync table to the workspace state, so that a reload of the
+     * window can restore it.
+     */
+    private persistSyncs(): void {
+        const syncs = [...this.activeSyncs.values()]
+            .map((sync) => sync.toPersisted())
+            .filter((sync) => sync.scripts.length > 0);
+        Promise.resolve(this.context.workspaceState.update(ACTIVE_SYNCS_KEY, syncs)).catch((error) => {
+            logWarning(`Unable to save the active syncs: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }
+
+    /**
+     * Re-establishes the syncs saved by the last session for viewer files
+     * that still exist. Their scripts are subscribed again once a viewer
+     * session is established.
+     */
+    private async restoreSyncs(): Promise<void> {
+        const { syncs, problems } = parsePersistedSyncs(this.context.workspaceState.get(ACTIVE_SYNCS_KEY));
+        for (const problem of problems) {
+            logWarning(`Ignoring saved sync: ${problem}`);
+        }
+
+        let restored = 0;
+        for (const saved of syncs) {
+            if (this.findSyncByMasterFilePath(saved.master)) {
+                continue;
+            }
+            const scripts: PersistedScript[] = [];
+            for (const script of saved.scripts) {
+                if (await uriExists(vscode.Uri.file(script.viewerFile))) {
+                    scripts.push(script);
+                } else {
+                    logInfo(`Not restoring the sync of ${path.basename(script.viewerFile)}, the viewer file no longer exists`);
                 }
-                this.websocket.dispose();
-                this.websocket = undefined;
             }
+            if (scripts.length === 0 || !(await uriExists(vscode.Uri.file(saved.master)))) {
+                continue;
+            }
+
+            const viewerFiles = scripts.map((script) => path.normalize(script.viewerFile));
+            viewerFiles.forEach((file) => this.restoringFiles.add(file));
+            try {
+                const masterDoc = await vscode.workspace.openTextDocument(vscode.Uri.file(saved.master));
+                const sync = new ScriptSync(masterDoc, saved.language, ConfigService.getInstance());
+                for (const script of scripts) {
+                    const viewerDoc = await vscode.workspace.openTextDocument(vscode.Uri.file(script.viewerFile));
+                    sync.subscribe(script.id, viewerDoc, script.hash);
+                }
+                this.addSync(sync);
+                viewerFiles.forEach((file) => this.restoredFiles.add(file));
+                restored++;
+            } catch (error) {
+                logWarning(`Unable to restore the sync of ${path.basename(saved.master)}: ${error instanceof Error ? error.message : String(error)}`);
+            } finally {
+                viewerFiles.forEach((file) => this.restoringFiles.delete(file));
+            }
+        }
+
+        this.persistSyncs();
+        if (restored === 0) {
+            return;
+        }
+        logInfo(`Restored ${restored} sync(s) from the last session`);
+        if (!this.isConnected()) {
+            this.connect().then((connected) => {
+                if (!connected) {
+                    logWarning("Restored syncs are waiting for a connection to the viewer");
+                }
+            });
         }
     }
 
     //====================================================================
-    //#region WebSocket connection management and handlers
-    private async setupConnection(): Promise<boolean> {
-        const handlers = {
-            onHandshake: (message: SessionHandshake): any => this.onHandshake(message),
-            onHandshakeOk: (): any => this.onHandshakeOk(),
-            onDisconnect: (message: SessionDisconnect): any => this.onDisconnect(message),
-            onScriptUnsubscribe: (message: ScriptUnsubscribe): any =>
-                this.onScriptUnsubscribe(message),
-            onSyntaxChange: (message: SyntaxChange): any => this.onSyntaxChange(message),
-            onCompilationResult: (message: CompilationResult): any => this.onCompilationResult(message),
-            onRuntimeDebug: (message: RuntimeDebug): any => this.onRuntimeDebug(message),
-            onRuntimeError: (message: RuntimeError): any => this.onRuntimeError(message),
-
-        };
-
-        if (this.websocket && this.websocket.isConnected()) {
-            return true;
+    //#region Viewer session management and handlers
+    /**
+     * Connects to a viewer endpoint (the selected one by default) unless a
+     * session with it is already open. Active syncs are subscribed once the
+     * session has been established (see onSessionOk).
+     */
+    public async connect(endpoint: ViewerEndpoint = this.getSelectedEndpoint()): Promise<boolean> {
+        let session = this.findSessionByUrl(endpointToUrl(endpoint));
+        if (session && (session.isConnected() || session.isHandshaking())) {
+            return session.connect();
+        }
+        if (session) {
+            // A session whose reconnection gave up, start over
+            this.releaseSession(session, "Reconnecting");
         }
 
-        const handshake: Promise<{ success: boolean; message?: string }> =
-            this.getHandshakePromise();
-        showStatusMessage("Connecting to Second Life viewer...", handshake);
+        session = new ViewerSession(this.context, endpoint, this.sessionHandlers);
+        this.sessions.push(session);
+        const connected = await session.connect();
+        if (!connected && session.getState() === "disconnected") {
+            this.releaseSession(session, "Failed to connect");
+        }
+        return connected;
+    }
 
-        this.websocket = new ViewerEditWSClient(this.context);
-        this.websocket.setup(handlers);
-        let connected = await this.websocket.connect();
+    /**
+     * Sends a session.disconnect to every viewer and releases the sessions.
+     * Active syncs are kept so that a later connect can resubscribe them.
+     */
+    public disconnect(message: string = "Disconnected by user"): boolean {
+        const connected = this.isConnected();
+        this.releaseSessions(message);
+        return connected;
+    }
 
-        if (!connected.success) {
-            showWarningMessage(
-                `Second Life session failed to connect: ${connected.message}`,
-            );
-            // we need to also trigger the handshake promise to close the status message.
-            this.handshakeResolve!(false, connected.message);
-            return false;
-        }
+    /**
+     * Drops every session and re-establishes them. With no open sessions
+     * this connects to the selected endpoint.
+     */
+    public async reconnect(): Promise<boolean> {
+        const endpoints = this.sessions.length > 0
+            ? this.sessions.map((session) => session.endpoint)
+            : [this.getSelectedEndpoint()];
+        this.releaseSessions("Reconnecting");
+
+        const results = await Promise.all(endpoints.map((endpoint) => this.connect(endpoint)));
+        return results.some((connected) => connected);
+    }
 
-        let results = await handshake;
+    public isConnected(): boolean {
+        return this.sessions.some((session) => session.isConnected());
+    }
 
-        if (!results.success) {
-            showWarningMessage(
-                `Second Life session failed to connect: ${results.message}`,
-            );
-        }
+    /**
+     * The most advanced state of any session, so the status bar shows
+     * connected as long as at least one viewer is.
+     */
+    public getSessionState(): SessionState {
+        const order: SessionState[] = ["connected", "handshaking", "connecting"];
+        return order.find((state) =>
+            this.sessions.some((session) => session.getState() === state),
+        ) ?? "disconnected";
+    }
 
-        return results.success;
+    public getSessions(): readonly ViewerSession[] {
+        return this.sessions;
     }
 
-    //--------------------------------------------------------------------
-    private async onHandshake(message: SessionHandshake): Promise<SessionHandshakeResponse> {
-        this.viewerName = message.viewer_name;
-        this.viewerVersion = message.viewer_version;
-        this.agentId = message.agent_id;
-        this.agentName = message.agent_name;
-        this.viewerLanguages = message.languages;
-        this.syntaxId = message.syntax_id;
-        this.viewerFeatures = message.features;
-
-        let challengeResponse: string | undefined = undefined;
-        if (message.challenge) {
-            // The challenge is the name of a file, we just need to read the contents
-            // and return it to the server.
-            await fs.promises.readFile(message.challenge, 'utf8').then((data: string) => {
-                challengeResponse = data;
-                console.log("Received challenge from viewer:", message.challenge);
-            });
-        }
+    /**
+     * The first established session, used when a request is not tied to
+     * any particular script.
+     */
+    public getPrimarySession(): ViewerSession | undefined {
+        return this.sessions.find((session) => session.isEstablished());
+    }
 
-        const response: SessionHandshakeResponse = {
-            client_name: ConfigService.getInstance().getConfig<string>(ConfigKey.ClientName) || "sl-vscode-plugin",
-            client_version: "1.0",
-            protocol_version: "1.0",
-            ...maybe("challenge_response", challengeResponse),
-            languages: ["lsl", "luau"],
-            features: {
-                live_sync: true,
-                error_reporting: true,
-                debugging: false,
-                breakpoints: false,
-            },
-        };
-        return response;
-    }
-
-    private onHandshakeOk(): void {
-    // Session established successfully
-        console.log(
-            `Session established with viewer ${this.viewerName} v${this.viewerVersion}`,
-        );
-        showInfoMessage(
-            `Connected to Second Life viewer: ${this.viewerName} v${this.viewerVersion}`,
-        );
+    public findSessionByAgent(agentId: string): ViewerSession | undefined {
+        return this.sessions.find((session) => session.agentId === agentId);
+    }
 
-        const service = LanguageService.getInstance();
-        if (!this.checkLanguageVersion()) {
-            const socket = this.getWebSocket();
-            if (socket && this.syntaxId) {
-                const promise = service.changeSyntaxVersion(this.syntaxId, socket);
-                showStatusMessage("Updating to latest language definitions...", promise);
-            }
-        }
+    private findSessionByUrl(url: string): ViewerSession | undefined {
+        return this.sessions.find((session) => session.getUrl() === url);
+    }
 
-        if (this.handshakeResolve) {
-            this.handshakeResolve(true, "Connected");
+    /**
+     * The established session of the viewer that owns a script ID. Until the
+     * owner is known a lone session is assumed to own everything.
+     */
+    public getSessionForScript(scriptId: string): ViewerSession | undefined {
+        const owner = this.scriptOwners.get(scriptId);
+        if (owner) {
+            const session = this.findSessionByAgent(owner);
+            return session?.isEstablished() ? session : undefined;
         }
+
+        const established = this.sessions.filter((session) => session.isEstablished());
+        return established.length === 1 ? established[0] : undefined;
+    }
+
+    /**
+     * The agent that owns a script, used to expand the agent macros.
+     */
+    public getScriptAgent(scriptId: string): ScriptAgent | undefined {
+        const session = this.getSessionForScript(scriptId);
+        return session?.agentId ? { agentId: session.agentId, agentName: session.agentName } : undefined;
     }
 
-    private onDisconnect(params: SessionDisconnect): void {
-        const reason = params?.reason || 0;
-        const message = params?.message || "Session disconnected";
+    private releaseSession(session: ViewerSession, message: string): void {
+        this.sessions = this.sessions.filter((s) => s !== session);
+        session.disconnect(message);
+        this._onSessionStateChange.fire(this.getSessionState());
+    }
 
-        // Show status message specific to this script
+    private releaseSessions(message: string): void {
+        for (const session of [...this.sessions]) {
+            this.releaseSession(session, message);
+        }
+    }
 
-        if (this.handshakeResolve) {
-            this.handshakeResolve(false, message);
-        } else {
-            showStatusMessage(
-                `Second Life session disconnected from viewer: ${message} (reason ${reason})`,
+    //--------------------------------------------------------------------
+    private onSessionOk(session: ViewerSession, restoring: boolean): void {
+        const duplicate = this.sessions.find((other) =>
+            other !== session && other.isEstablished() && other.agentId === session.agentId,
+        );
+        if (duplicate) {
+            // Two endpoints leading to the same viewer, keep the first session
+            logWarning(
+                `Viewer at ${session.getUrl()} is already connected for ${session.agentName} via ${duplicate.endpoint.name}`,
             );
+            this.releaseSession(session, "Agent already connected");
+            return;
         }
 
-    // Don't dispose immediately - let the connection close handler do the cleanup
-    // The websocket will be closed by the server, triggering our close handler
+        this.updateLanguageVersion(session);
+        if (session.hasFeature(LIVE_SYNC)) {
+            this.subscribeAllSyncs(restoring);
+        }
     }
 
-    private onScriptUnsubscribe(message: ScriptUnsubscribe): void {
+    private onScriptUnsubscribe(_session: ViewerSession, message: ScriptUnsubscribe): void {
         const scriptId = message.script_id;
+        this.scriptOwners.delete(scriptId);
         const sync = this.findSyncByScriptId(scriptId);
         if (sync) {
             sync.unsubscribeById(scriptId, true);
+            this.persistSyncs();
         }
     }
 
-    private onSyntaxChange(params: SyntaxChange): void {
-        if (this.syntaxId !== params.id) {
-            this.syntaxId = params.id;
-            if (!this.checkLanguageVersion()) {
-                const service = LanguageService.getInstance();
-                const socket = this.getWebSocket();
-                if (socket) {
-                    const promise = service.changeSyntaxVersion(params.id, socket);
-                    showStatusMessage("Updating to latest language definitions...", promise);
-                }
-            }
-        }
+    private onSyntaxChange(session: ViewerSession, _params: SyntaxChange): void {
+        this.updateLanguageVersion(session);
     }
 
-    private onCompilationResult(message: CompilationResult): void {
+    private onCompilationResult(session: ViewerSession, message: CompilationResult): void {
         const scriptId = message.script_id;
+        this.recordOwner(session, scriptId);
+        if (!session.hasFeature(ERROR_REPORTING)) {
+            return;
+        }
+        SyncHistory.getInstance().recordCompilation(message);
         const sync = this.findSyncByScriptId(scriptId);
 
         if (sync) {
@@ -428,9 +633,28 @@ export class SynchService implements vscode.Disposable {
         }
     }
 
-    private onRuntimeDebug(message: RuntimeDebug): void {
+    private onRuntimeDebug(session: ViewerSession, message: RuntimeDebug): void {
         const scriptId = message.script_id;
+        this.recordOwner(session, scriptId, message.object_name);
         const sync = this.findSyncByScriptId(scriptId);
+        const mode = ConfigService.getInstance().getConfig<StructuredLogMode>(ConfigKey.DebugStructuredLogs) ?? "off";
+        const log = mode !== "off" ? parseStructuredLog(message.message) : undefined;
+        let source: NormalizedPath | undefined;
+        if (log) {
+            // Without a sync only a full path from __FILE__ can be followed
+            source = sync
+                ? resolveLogSource(log.file, sync.getSourceFiles())
+                : path.isAbsolute(log.file) ? normalizePath(log.file) : undefined;
+        }
+        ScriptConsole.getInstance().add({
+            timestamp: Date.now(),
+            objectId: message.object_id,
+            objectName: message.object_name,
+            scriptId,
+            script: sync ? path.basename(sync.getMasterFilePath()) : undefined,
+            message: message.message,
+            ...(log ? { log, source } : {}),
+        });
         if (sync) {
             sync.handleRuntimeDebug(message);
         }
@@ -439,8 +663,12 @@ export class SynchService implements vscode.Disposable {
         }
     }
 
-    private onRuntimeError(message: RuntimeError): void {
+    private onRuntimeError(session: ViewerSession, message: RuntimeError): void {
         const scriptId = message.script_id;
+        this.recordOwner(session, scriptId, message.object_name);
+        if (!session.hasFeature(ERROR_REPORTING)) {
+            return;
+        }
         const sync = this.findSyncByScriptId(scriptId);
 
         if (sync) {
@@ -452,79 +680,283 @@ export class SynchService implements vscode.Disposable {
         }
     }
 
-    private async sendSyncSubscription(sync: ScriptSync): Promise<void> {
-        if (!this.websocket || !this.websocket.isConnected()) {
-            return;
+    // A viewer only ever talks about its own scripts. The object name helps
+    // pick the master when the script is opened again.
+    private recordOwner(session: ViewerSession, scriptId: string, objectName?: string): void {
+        if (session.agentId && scriptId) {
+            this.scriptOwners.set(scriptId, session.agentId);
+        }
+        if (objectName && scriptId) {
+            this.scriptObjects.set(scriptId, objectName);
         }
+    }
 
-        //TODO: This isn't quite right for multiple tracked ids
-        // we should check subscription state first for each tracked id
+    private isSubscribed(scriptId: string): boolean {
+        return this.sessions.some((session) => session.isSubscribed(scriptId));
+    }
+
+    /**
+     * Subscribes a script with the viewer that owns it. When the owner is
+     * not known yet each established session is asked in turn, only the
+     * viewer that has the script will accept.
+     */
+    private async subscribeScript(scriptId: string, scriptName: string, language: string): Promise<SubscriptionResult> {
+        const owner = this.scriptOwners.has(scriptId) ? this.getSessionForScript(scriptId) : undefined;
+        const candidates = (owner ? [owner] : this.sessions.filter((session) => session.isEstablished()))
+            .filter((session) => session.hasFeature(LIVE_SYNC));
+
+        let result: SubscriptionResult = { scriptId, scriptName, success: false, message: "No viewer session with live sync" };
+        for (const session of candidates) {
+            result = await session.subscribe(scriptId, scriptName, language);
+            if (result.success) {
+                this.recordOwner(session, scriptId);
+                break;
+            }
+        }
+        return result;
+    }
+
+    private async sendSyncSubscription(sync: ScriptSync): Promise<SubscriptionResult[]> {
+        if (!this.sessions.some((session) => session.isEstablished() && session.hasFeature(LIVE_SYNC))) {
+            // Without live sync the viewer picks up the temp file on its own
+            return [];
+        }
         const masterName = path.basename(sync.getMasterDocument().fileName);
         const language = sync.getLanguage();
-        const ids = sync.getTrackedIds();
-        for (const id of ids) {
-            const subscribeMsg: ScriptSubscribe = {
-                script_id: id,
-                script_name: masterName,
-                script_language: language,
-            };
-            this.websocket
-                .call("script.subscribe", subscribeMsg)
-                .then((response: ScriptSubscribeResponse) => {
-                    if (response.success) {
-                        showStatusMessage(
-                            `Subscribed to script ${masterName} for live syncing.`,
-                        );
-                    } else {
-                        showWarningMessage(
-                            `Failed to subscribe to script ${masterName}: ${response.message}`,
-                        );
-                    }
-                });
-        }
-    }
-
-    public getHandshakePromise(): Promise<{
-        success: boolean;
-        message?: string;
-    }> {
-        if (!this.handshakePromise) {
-            this.handshakePromise = new Promise((resolve, _message?) => {
-                this.handshakeResolve = (value: boolean, message?: string): void =>
-                    resolve({
-                        success: value,
-                        message: message || (value ? "Connected" : "Failed to connect"),
-                    });
-            });
-            this.handshakePromise.then((_result) => {
-                this.handshakePromise = undefined;
-                this.handshakeResolve = undefined;
+        const ids = sync.getTrackedIds().filter((id) =>
+            !this.isSubscribed(id) && !this.pendingSubscriptions.has(id),
+        );
+
+        return Promise.all(ids.map(async (id): Promise<SubscriptionResult> => {
+            this.pendingSubscriptions.add(id);
+            try {
+                const result = await this.subscribeScript(id, masterName, language);
+                if (result.success) {
+                    showStatusMessage(
+                        `Subscribed to script ${masterName} for live syncing.`,
+                    );
+                } else {
+                    showWarningMessage(
+                        `Failed to subscribe to script ${masterName}: ${result.message}`,
+                    );
+                }
+                return result;
+            } finally {
+                this.pendingSubscriptions.delete(id);
+            }
+        }));
+    }
+
+    /**
+     * Subscribes every script tracked by every active sync and reports the
+     * outcome in the log. Called each time a session is (re)established.
+     */
+    private async subscribeAllSyncs(restoring: boolean): Promise<void> {
+        const results = (await Promise.all(
+            [...this.activeSyncs.values()].map((sync) => this.sendSyncSubscription(sync)),
+        )).flat();
+
+        const verb = restoring ? "Restored" : "Subscribed";
+        for (const result of results) {
+            if (result.success) {
+                const agent = this.getScriptAgent(result.scriptId)?.agentName;
+                logInfo(`${verb} subscription for ${result.scriptName} (${result.scriptId})${agent ? ` with ${agent}` : ""}`);
+            } else {
+                logWarning(
+                    `Viewer rejected subscription for ${result.scriptName} (${result.scriptId}): ${result.message ?? "no reason given"}`,
+                );
+            }
+        }
+    }
+
+    /**
+     * Writes the state of every viewer session to the output channel.
+     */
+    public logSessionStatus(): void {
+        const lines: string[] = ["Second Life viewer session status:"];
+
+        lines.push(`  State: ${this.getSessionState()}`);
+        lines.push(`  Selected endpoint: ${this.getSelectedEndpoint().name}`);
+        lines.push(`  Loaded syntax ID: ${LanguageService.getInstance().getSyntaxID()}`);
+
+        lines.push(`  Sessions: ${this.sessions.length}`);
+        for (const session of this.sessions) {
+            lines.push(...session.describe("    "));
+        }
+
+        lines.push(`  Active syncs: ${this.activeSyncs.size}`);
+        for (const sync of this.activeSyncs.values()) {
+            const ids = sync.getTrackedIds().map((id) => {
+                const agent = this.getScriptAgent(id)?.agentName;
+                const subscribed = this.isSubscribed(id) ? " subscribed" : "";
+                return agent || subscribed ? `${id} (${agent ?? "unknown agent"}${subscribed})` : id;
             });
+            lines.push(`    ${sync.getMasterFilePath()} [${sync.getLanguage()}]`);
+            lines.push(`      Script IDs: ${ids.length > 0 ? ids.join(", ") : "none"}`);
+        }
+
+        logInfo(lines.join("\n"));
+    }
+
+    //#endregion
+
+    //====================================================================
+    //#region Viewer endpoints
+    /**
+     * The default endpoint (localhost on network.websocketPort) followed by
+     * any named endpoints from network.endpoints.
+     */
+    public getEndpoints(): ViewerEndpoint[] {
+        const config = ConfigService.getInstance();
+        const port = config.getConfig<number>(ConfigKey.NetworkWebsocketPort) ?? DEFAULT_VIEWER_PORT;
+        const configured = config.getConfig<Partial<ViewerEndpoint>[]>(ConfigKey.NetworkEndpoints) ?? [];
+
+        const endpoints: ViewerEndpoint[] = [{ name: "Default", host: "localhost", port }];
+        for (const entry of configured) {
+            if (!entry || !entry.name || typeof entry.port !== "number") {
+                logWarning(`Ignoring invalid viewer endpoint: ${JSON.stringify(entry)}`);
+                continue;
+            }
+            endpoints.push({ name: entry.name, host: entry.host || "localhost", port: entry.port });
+        }
+        return endpoints;
+    }
+
+    /**
+     * The endpoint remembered for this workspace, or the default one.
+     */
+    public getSelectedEndpoint(): ViewerEndpoint {
+        const endpoints = this.getEndpoints();
+        const selected = this.context.workspaceState.get<string>(SELECTED_ENDPOINT_KEY);
+        return endpoints.find((endpoint) => endpoint.name === selected) ?? endpoints[0];
+    }
+
+    public async setSelectedEndpoint(endpoint: ViewerEndpoint): Promise<void> {
+        await this.context.workspaceState.update(SELECTED_ENDPOINT_KEY, endpoint.name);
+    }
+
+    /**
+     * Lets the user pick the viewer endpoint for this workspace and connects
+     * to it. Sessions with other viewers are left open.
+     */
+    public async promptForEndpoint(): Promise<void> {
+        const current = this.getSelectedEndpoint();
+        const picked = await vscode.window.showQuickPick(
+            this.getEndpoints().map((endpoint) => ({
+                label: endpoint.name,
+                description: endpointToUrl(endpoint),
+                detail: endpoint.name === current.name ? "Currently selected" : undefined,
+                endpoint,
+            })),
+            { placeHolder: "Select the Second Life viewer to connect to" },
+        );
+        if (!picked) {
+            return;
         }
-        return this.handshakePromise;
+
+        await this.setSelectedEndpoint(picked.endpoint);
+        await this.connect(picked.endpoint);
     }
 
-    public isHandshaking(): boolean {
-        return !!this.handshakeResolve;
+    //#endregion
+
+    //====================================================================
+    //#region Traffic replay
+    /**
+     * Feeds the viewer messages of a recording to the session handlers as if
+     * a viewer had sent them. Calls made in response are answered from the
+     * recording.
+     */
+    public async replayTraffic(records: TrafficRecord[]): Promise<ReplaySummary> {
+        if (this.isConnected()) {
+            throw new Error("Disconnect from the viewer before replaying a recording");
+        }
+
+        const replay = new ReplayWSClient(this.context, records);
+        const session = new ViewerSession(this.context, REPLAY_ENDPOINT, this.sessionHandlers, async () => replay);
+        this.sessions.push(session);
+        try {
+            // The handshake is one of the recorded messages, so the session
+            // only finishes connecting while the recording plays
+            const playing = replay.play();
+            let connected = false;
+            try {
+                connected = await session.connect();
+            } finally {
+                if (!connected) {
+                    replay.disconnect();
+                }
+            }
+            if (!connected) {
+                throw new Error("The recording did not start a session");
+            }
+            return await playing;
+        } finally {
+            this.releaseSession(session, "Replay finished");
+        }
+    }
+
+    /**
+     * Lets the user pick a recording and replays it, reporting the outcome
+     * in the log.
+     */
+    public async promptForReplay(): Promise<void> {
+        const picked = await vscode.window.showOpenDialog({
+            defaultUri: await ConfigService.getRecordingsPath(),
+            canSelectMany: false,
+            filters: { "Traffic recordings": ["jsonl"] },
+            openLabel: "Replay",
+        });
+        if (!picked || picked.length === 0) {
+            return;
+        }
+
+        const file = picked[0].fsPath;
+        try {
+            const records = parseRecording(await fs.promises.readFile(file, "utf8"));
+            logInfo(`Replaying ${records.length} recorded messages from ${file}`);
+
+            const replaying = this.replayTraffic(records);
+            showStatusMessage(`Replaying ${path.basename(file)}...`, replaying);
+            const summary = await replaying;
+
+            logInfo(
+                `Replay of ${path.basename(file)} finished: ${summary.replayed} viewer messages, ${summary.answered} calls answered from the recording`,
+            );
+            if (summary.unanswered.length > 0) {
+                logWarning(`No recorded reply for: ${summary.unanswered.join(", ")}`);
+            }
+            showInfoMessage(`Replayed ${summary.replayed} viewer messages from ${path.basename(file)}`);
+        } catch (error) {
+            showWarningMessage(`Replay failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
     }
 
     //#endregion
 
     //====================================================================
     //#region Language version checking and management
-    public checkLanguageVersion(): boolean | undefined {
-        if (!this.syntaxId) {
+    public checkLanguageVersion(session: ViewerSession | undefined = this.getPrimarySession()): boolean | undefined {
+        if (!session?.syntaxId) {
             return;
         }
 
         const language: LanguageService = LanguageService.getInstance();
-        if (language.getSyntaxID() === this.syntaxId) {
+        if (language.getSyntaxID() === session.syntaxId) {
             return true;
         }
 
         return false;
     }
 
+    private updateLanguageVersion(session: ViewerSession): void {
+        const socket = session.getWebSocket();
+        if (!this.checkLanguageVersion(session) && socket && session.syntaxId) {
+            const promise = LanguageService.getInstance().changeSyntaxVersion(session.syntaxId, socket);
+            showStatusMessage("Updating to latest language definitions...", promise);
+        }
+    }
+
     public async forceLanguageUpdate(): Promise<void> {
         const service = LanguageService.getInstance();
         const socket = this.getWebSocket();
@@ -582,6 +1014,13 @@ export class SynchService implements vscode.Disposable {
         return this.activeSyncs.get(path.normalize(masterFilePath));
     }
 
+    /**
+     * Whether the viewer owning a script reports compile results for it.
+     */
+    public reportsCompilation(scriptId: string): boolean {
+        return this.getSessionForScript(scriptId)?.hasFeature(ERROR_REPORTING) ?? false;
+    }
+
     public findSyncByIncludeFilePath(
         includePath: string,
     ): ScriptSync[] {
@@ -594,36 +1033,248 @@ export class SynchService implements vscode.Disposable {
         return syncs;
     }
 
-    private static async findMasterFile(
+    /**
+     * Finds the master file for a script opened by the viewer. Entries in
+     * the workspace manifest come first, then files named after the script.
+     * When that leaves several candidates, or none, the user picks one and
+     * the choice is saved to the manifest.
+     */
+    private async findMasterFile(
         script: ParsedTempFile,
     ): Promise<vscode.Uri | null> {
-        let files = await vscode.workspace.findFiles(`**/${script.scriptName}.${script.extension}`);
-        if(files.length > 0) {
-            return files[0];
-        } else {
-            // Not found a glob match, try a broader fit
-            // Get all files with right extenstion
-            const possibleFiles = await vscode.workspace.findFiles(`**/*.${script.extension}`)
-            for(const possibleFile of possibleFiles) {
-                const wsFile = vscode.Uri.file(vscode.workspace.asRelativePath(possibleFile));
-                // filter out paths with hidden directories
-                if(wsFile.path.includes("/.") || wsFile.path.includes("\\.")) continue;
-                let relative = wsFile.path;
-                // Remove leading `/` or `\` characters
-                while(relative.startsWith("/") || relative.startsWith("\\")) {
-                    relative = relative.slice(1);
-                }
-                const matches = [
-                    relative.replaceAll("/","").replaceAll("\\",""), // Try match `folder/script.luau` to `folderscript` or `folder/script` from sl
-                    relative.replaceAll("/","_").replaceAll("\\","_"), // Try to match `folder/script.luau` to `folder_script` from sl
-                ];
-                if(matches.includes(`${script.scriptName}.${script.extension}`)) {
-                    return possibleFile;
-                }
-                logInfo(relative);
+        const identity: ScriptIdentity = { ...script, objectName: this.scriptObjects.get(script.scriptId) };
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        let manifest: ScriptManifest | undefined;
+        if (folder) {
+            try {
+                manifest = await SynchService.readManifest(folder);
+            } catch (error) {
+                // Leave a broken manifest alone rather than overwrite it
+                showWarningMessage(error instanceof Error ? error.message : String(error));
             }
-            return null
         }
+
+        if (manifest && folder) {
+            const listed = await SynchService.existingFiles(
+                findManifestEntries(manifest, identity).map((entry) => vscode.Uri.joinPath(folder.uri, entry.master)),
+            );
+            if (listed.length === 1) {
+                return listed[0];
+            }
+            if (listed.length > 1) {
+                return this.pickMasterFile(identity, listed, `matches several entries in ${MANIFEST_FILE_NAME}`, manifest, folder);
+            }
+        }
+
+        const guesses = await SynchService.guessMasterFiles(script);
+        if (guesses.length === 1) {
+            return guesses[0];
+        }
+        if (guesses.length > 1) {
+            return this.pickMasterFile(identity, guesses, "several files have this name", manifest, folder);
+        }
+
+        const scriptFiles = await SynchService.findScriptFiles(script.extension);
+        if (scriptFiles.length === 0) {
+            return null;
+        }
+        return this.pickMasterFile(identity, scriptFiles, "no file has this name", manifest, folder);
+    }
+
+    private async pickMasterFile(
+        script: ScriptIdentity,
+        candidates: vscode.Uri[],
+        reason: string,
+        manifest: ScriptManifest | undefined,
+        folder: vscode.WorkspaceFolder | undefined,
+    ): Promise<vscode.Uri | null> {
+        const items = candidates.map((uri) => ({
+            label: vscode.workspace.asRelativePath(uri, false),
+            uri,
+        }));
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `Select the master file for ${script.scriptName}.${script.extension} (${reason}), or press Escape to edit the viewer copy`,
+            ignoreFocusOut: true,
+        });
+        if (!picked) {
+            return null;
+        }
+
+        if (manifest && folder) {
+            await SynchService.saveMasterChoice(manifest, folder, script, picked.uri);
+        }
+        return picked.uri;
+    }
+
+    private static async saveMasterChoice(
+        manifest: ScriptManifest,
+        folder: vscode.WorkspaceFolder,
+        script: ScriptIdentity,
+        masterUri: vscode.Uri,
+    ): Promise<void> {
+        const master = path.relative(folder.uri.fsPath, masterUri.fsPath).split(path.sep).join("/");
+        rememberMaster(manifest, script, master);
+        try {
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(folder.uri, MANIFEST_FILE_NAME),
+                Buffer.from(serializeManifest(manifest), "utf8"),
+            );
+            logInfo(`Saved ${master} as the master of ${script.scriptName} (${script.scriptId}) in ${MANIFEST_FILE_NAME}`);
+        } catch (error) {
+            showWarningMessage(`Unable to update ${MANIFEST_FILE_NAME}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Creates a workspace master file from a viewer copy that is being
+     * edited as its own master, then moves the sync over to the new file.
+     * The user picks the folder and how much of any preprocessed content
+     * to keep.
+     */
+    public async createMasterFromViewer(
+        viewerFilePath: string | undefined = vscode.window.activeTextEditor?.document.fileName,
+    ): Promise<vscode.Uri | undefined> {
+        const sync = viewerFilePath ? this.findSyncByTempFilePath(viewerFilePath) : undefined;
+        const parsed = sync?.isOwnMaster() ? SynchService.parseTempFile(sync.getMasterFilePath()) : null;
+        if (!sync || !parsed) {
+            showWarningMessage("Open a viewer script that has no master file to create one.");
+            return undefined;
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        const destination = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: folder?.uri,
+            openLabel: "Create Master Here",
+            title: `Folder for the master of ${parsed.scriptName}.${parsed.extension}`,
+        });
+        if (!destination || destination.length === 0) {
+            return undefined;
+        }
+
+        const language = parsed.extension as ScriptLanguage;
+        let content = sync.getMasterDocument().getText();
+        if (LineMapper.stripLineDirectives(content, language) !== content) {
+            // The viewer copy holds the output of an earlier sync
+            const choice = await vscode.window.showQuickPick([
+                {
+                    label: "Keep only the script's own lines",
+                    description: "Drops @line directives and the content of included files",
+                    convert: (text: string): string => LineMapper.extractMainSource(text, language),
+                },
+                {
+                    label: "Remove @line directives",
+                    description: "Keeps included files inline",
+                    convert: (text: string): string => LineMapper.stripLineDirectives(text, language),
+                },
+                {
+                    label: "Keep the content as it is",
+                    convert: (text: string): string => text,
+                },
+            ], {
+                placeHolder: "The viewer copy contains preprocessed content",
+                ignoreFocusOut: true,
+            });
+            if (!choice) {
+                return undefined;
+            }
+            content = choice.convert(content);
+        }
+
+        let masterUri = vscode.Uri.joinPath(destination[0], `${parsed.scriptName}.${parsed.extension}`);
+        if (await uriExists(masterUri)) {
+            const fileName = await vscode.window.showInputBox({
+                prompt: `${vscode.workspace.asRelativePath(masterUri, false)} already exists, enter a name for the new master`,
+                value: `${parsed.scriptName}_copy.${parsed.extension}`,
+                validateInput: (value) => /^[^\\/]+$/.test(value.trim()) ? undefined : "Enter a file name without folders",
+            });
+            if (!fileName) {
+                return undefined;
+            }
+            masterUri = vscode.Uri.joinPath(destination[0], fileName.trim());
+            if (await uriExists(masterUri)) {
+                showWarningMessage(`${vscode.workspace.asRelativePath(masterUri, false)} already exists.`);
+                return undefined;
+            }
+        }
+
+        await vscode.workspace.fs.writeFile(masterUri, Buffer.from(content, "utf8"));
+        const masterDoc = await SynchService.openMasterScript(masterUri);
+
+        this.activeSyncs.delete(sync.getMasterFilePath());
+        sync.setMasterDocument(masterDoc);
+        this.activeSyncs.set(sync.getMasterFilePath(), sync);
+        this.persistSyncs();
+
+        if (folder) {
+            try {
+                const manifest = await SynchService.readManifest(folder);
+                const identity: ScriptIdentity = { ...parsed, objectName: this.scriptObjects.get(parsed.scriptId) };
+                await SynchService.saveMasterChoice(manifest, folder, identity, masterUri);
+            } catch (error) {
+                showWarningMessage(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        showInfoMessage(`Created master script ${vscode.workspace.asRelativePath(masterUri, false)}, save it to sync with the viewer.`);
+        return masterUri;
+    }
+
+    // The workspace manifest, empty when the folder does not have one yet
+    private static async readManifest(folder: vscode.WorkspaceFolder): Promise<ScriptManifest> {
+        let content: Uint8Array;
+        try {
+            content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, MANIFEST_FILE_NAME));
+        } catch {
+            return { scripts: [] };
+        }
+        return parseManifest(Buffer.from(content).toString("utf8"));
+    }
+
+    private static async existingFiles(uris: vscode.Uri[]): Promise<vscode.Uri[]> {
+        const found = new Map<string, vscode.Uri>();
+        for (const uri of uris) {
+            try {
+                await vscode.workspace.fs.stat(uri);
+                found.set(uri.fsPath, uri);
+            } catch {
+                logWarning(`${MANIFEST_FILE_NAME} lists a master that does not exist: ${uri.fsPath}`);
+            }
+        }
+        return [...found.values()];
+    }
+
+    // Script files of a language, leaving out hidden directories
+    public static async findScriptFiles(extension: string): Promise<vscode.Uri[]> {
+        const files = await vscode.workspace.findFiles(`**/*.${extension}`);
+        return files.filter((file) => {
+            const relative = vscode.workspace.asRelativePath(file, false);
+            return !relative.startsWith(".") && !relative.includes("/.") && !relative.includes("\\.");
+        });
+    }
+
+    // Files named after the script, or whose folders flatten into its name
+    private static async guessMasterFiles(script: ParsedTempFile): Promise<vscode.Uri[]> {
+        const fileName = `${script.scriptName}.${script.extension}`;
+        const files = await vscode.workspace.findFiles(`**/${fileName}`);
+        if (files.length > 0) {
+            return files;
+        }
+
+        const flattened: vscode.Uri[] = [];
+        for (const possibleFile of await SynchService.findScriptFiles(script.extension)) {
+            const relative = vscode.workspace.asRelativePath(possibleFile, false);
+            const matches = [
+                relative.replaceAll("/", "").replaceAll("\\", ""), // Try match `folder/script.luau` to `folderscript` or `folder/script` from sl
+                relative.replaceAll("/", "_").replaceAll("\\", "_"), // Try to match `folder/script.luau` to `folder_script` from sl
+            ];
+            if (matches.includes(fileName)) {
+                flattened.push(possibleFile);
+            }
+        }
+        return flattened;
     }
 
     private static async openMasterScript(
@@ -634,8 +1285,12 @@ export class SynchService implements vscode.Disposable {
         return masterDoc;
     }
 
+    /**
+     * The socket of the first established session, used for requests that
+     * are not tied to a script such as syntax updates.
+     */
     public getWebSocket(): ViewerEditWSClient | undefined {
-        return this.websocket;
+        return this.getPrimarySession()?.getWebSocket();
     }
     //#endregion
 
@@ -648,6 +1303,12 @@ export class SynchService implements vscode.Disposable {
 
     private onCloseTextDocument(document: vscode.TextDocument): void {
         const filePath = path.normalize(document.fileName);
+        if (this.restoredFiles.has(filePath)) {
+            // VS Code drops documents that were never shown whenever it
+            // likes. A restored sync ends when the viewer file is deleted
+            // or the viewer unsubscribes the script.
+            return;
+        }
         this.removeSync(filePath, false);
     }
 
@@ -663,11 +1324,49 @@ export class SynchService implements vscode.Disposable {
         const filePath = path.normalize(document.fileName);
         const sync = this.findSyncByMasterFilePath(filePath);
         if(sync) {
+            this.cancelLiveSync(sync);
             await sync.handleMasterSaved();
         } else {
-            for(const sync of this.findSyncByIncludeFilePath(filePath)) {
-                await sync.handleMasterSaved();
+            const dependents = this.findSyncByIncludeFilePath(filePath);
+            const scope = ConfigService.getInstance().getConfig<string>(ConfigKey.SyncIncludeDependents, "synced");
+            const scan = scope === "workspace" && SynchService.parseTempFile(filePath) === null &&
+                (LanguageService.isLSLDocument(document) || LanguageService.isLuauDocument(document));
+            if (dependents.length === 0 && !scan) {
+                return;
+            }
+            dependents.forEach((sync) => this.cancelLiveSync(sync));
+            await syncIncludeDependents(filePath, scan);
+        }
+    }
+
+    private onChangeTextDocument(event: vscode.TextDocumentChangeEvent): void {
+        const config = ConfigService.getInstance();
+        if (event.contentChanges.length === 0 || !config.getConfig<boolean>(ConfigKey.SyncLiveOnType, false)) {
+            return;
+        }
+
+        const filePath = path.normalize(event.document.fileName);
+        const master = this.findSyncByMasterFilePath(filePath);
+        const syncs = master ? [master] : this.findSyncByIncludeFilePath(filePath);
+        const delay = config.getConfig<number>(ConfigKey.SyncLiveDelayMs, 1000);
+        for (const sync of syncs) {
+            // A viewer copy edited as its own master is only written on save
+            if (sync.isOwnMaster()) {
+                continue;
             }
+            this.cancelLiveSync(sync);
+            this.liveSyncTimers.set(sync, setTimeout(() => {
+                this.liveSyncTimers.delete(sync);
+                sync.handleMasterEdited();
+            }, delay));
+        }
+    }
+
+    private cancelLiveSync(sync: ScriptSync): void {
+        const timer = this.liveSyncTimers.get(sync);
+        if (timer) {
+            clearTimeout(timer);
+            this.liveSyncTimers.delete(sync);
         }
     }
 
@@ -714,7 +1413,7 @@ export class SynchService implements vscode.Disposable {
     public deactivate(): void {
         try {
             // Dispose of all active syncs synchronously
-            this.dispose();
+            this.disposeSyncs();
         } catch (error) {
             console.warn("Error during SynchService deactivation:", error);
         }
@@ -0,0 +1,90 @@
+/**
+ * Tests for mapping columns of preprocessed output through macro expansion
+ */
+
+import * as assert from 'assert';
+import { Lexer } from '../../shared/lexer';
+import { LineMapper, LineMapping } from '../../shared/linemapper';
+import { Parser } from '../../shared/parser';
+import { NormalizedPath } from '../../interfaces/hostinterface';
+
+const MAIN = '/work/main.lsl' as NormalizedPath;
+// Without a host, lines after a @line directive map to the file as named in it
+const MAIN_URI = 'file:///work/main.lsl';
+
+const source = [
+    'default {',
+    '    state_entry() { integer n = LIMIT; CHECK(n + 1); n = 2; }',
+    '}',
+    '',
+].join('\n');
+
+const definitions = [
+    '// Limits',
+    '#define LIMIT 100',
+    '#define CHECK(x) if ((x) > LIMIT) llOwnerSay("big")',
+    '',
+].join('\n');
+
+async function preprocess(content: string): Promise<{ source: string; mappings: LineMapping[] }> {
+    return new Parser(new Lexer(content, 'lsl').tokenize(), MAIN, 'lsl').parse();
+}
+
+suite('Column Mapping', () => {
+    const offset = definitions.split('\n').length - 1;
+    const code = source.split('\n')[1];
+    let line: string;
+    let processedLine: number;
+    let mappings: LineMapping[];
+    const at = (text: string): number => line.indexOf(text) + 1;
+
+    suiteSetup(async () => {
+        const result = await preprocess(`${definitions}${source}`);
+        const output = result.source.split('\n');
+        processedLine = output.findIndex((text) => text.includes('state_entry')) + 1;
+        line = output[processedLine - 1];
+        mappings = result.mappings;
+        assert.strictEqual(line, '    state_entry() { integer n = 100; if ((n + 1) > 100) llOwnerSay("big"); n = 2; }');
+    });
+
+    test('maps code after an expansion back to its source column', () => {
+        const position = LineMapper.convertPositionToSource(mappings, processedLine, at('n = 2'));
+
+        assert.strictEqual(position?.column, code.indexOf('n = 2') + 1);
+        assert.strictEqual(position?.macro, undefined);
+    });
+
+    test('maps arguments to where they were written', () => {
+        const position = LineMapper.convertPositionToSource(mappings, processedLine, at('n + 1'));
+
+        assert.strictEqual(position?.column, code.indexOf('n + 1') + 1);
+        assert.strictEqual(position?.macro, undefined);
+    });
+
+    test('maps code from a macro body to the invocation and the definition', () => {
+        const call = code.indexOf('CHECK(') + 1;
+
+        assert.deepStrictEqual(LineMapper.convertPositionToSource(mappings, processedLine, at('llOwnerSay')), {
+            source: MAIN_URI,
+            line: offset + 2,
+            column: call,
+            length: 'CHECK(n + 1)'.length,
+            macro: { name: 'CHECK', sourceFile: MAIN, line: 3, column: definitions.split('\n')[2].indexOf('llOwnerSay') + 1 },
+        });
+        // A macro used in the body of another is the innermost definition
+        assert.deepStrictEqual(LineMapper.convertPositionToSource(mappings, processedLine, at('100)'))?.macro, {
+            name: 'LIMIT',
+            sourceFile: MAIN,
+            line: 2,
+            column: definitions.split('\n')[1].indexOf('100') + 1,
+        });
+    });
+
+    test('leaves out the columns of lines without expansions', () => {
+        assert.deepStrictEqual(mappings.filter((mapping) => mapping.columns).map((mapping) => mapping.processedLine), [processedLine]);
+        assert.deepStrictEqual(
+            LineMapper.convertPositionToSource(mappings, processedLine + 1, 1),
+            { source: MAIN_URI, line: offset + 3, column: 1 },
+        );
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for declaring handshake features and negotiating them with a viewer
+ */
+
+import * as assert from 'assert';
+import { FeatureRegistry } from '../../featureregistry';
+
+suite('Feature Registry', () => {
+    let registry: FeatureRegistry;
+    let errorsEnabled: boolean;
+
+    setup(() => {
+        registry = new FeatureRegistry();
+        errorsEnabled = true;
+        registry.register({ feature: 'live_sync', description: 'subscriptions' });
+        registry.register({
+            feature: 'error_reporting',
+            description: 'diagnostics',
+            isEnabled: () => errorsEnabled,
+        });
+    });
+
+    test('advertises only declared features with their local state', () => {
+        assert.deepStrictEqual(registry.advertise(), { live_sync: true, error_reporting: true });
+
+        errorsEnabled = false;
+        assert.deepStrictEqual(registry.advertise(), { live_sync: true, error_reporting: false });
+        assert.strictEqual(registry.isEnabled('debugging'), false);
+    });
+
+    test('negotiates the features both sides have', () => {
+        assert.deepStrictEqual(
+            registry.negotiate({ live_sync: true, error_reporting: true, debugging: true }),
+            ['live_sync', 'error_reporting'],
+        );
+        assert.deepStrictEqual(registry.negotiate({ live_sync: false, error_reporting: true }), ['error_reporting']);
+        assert.deepStrictEqual(registry.negotiate(undefined), []);
+
+        errorsEnabled = false;
+        assert.deepStrictEqual(registry.negotiate({ live_sync: true, error_reporting: true }), ['live_sync']);
+        assert.deepStrictEqual(registry.unavailable({ live_sync: false, error_reporting: true }), [
+            { feature: 'live_sync', reason: 'viewer does not support live_sync' },
+            { feature: 'error_reporting', reason: 'disabled' },
+        ]);
+    });
+
+    test('requires every viewer flag a feature depends on', () => {
+        registry.register({ feature: 'breakpoints', description: 'stops', requires: ['debugging', 'breakpoints'] });
+
+        assert.ok(!registry.negotiate({ breakpoints: true }).includes('breakpoints'));
+        assert.ok(registry.negotiate({ debugging: true, breakpoints: true }).includes('breakpoints'));
+        assert.deepStrictEqual(
+            registry.unavailable({ live_sync: true, error_reporting: true }),
+            [{ feature: 'breakpoints', reason: 'viewer does not support debugging, breakpoints' }],
+        );
+    });
+
+    test('rejects duplicate declarations and forgets disposed ones', () => {
+        assert.throws(() => registry.register({ feature: 'live_sync', description: 'again' }), /already registered/);
+
+        const declaration = registry.register({ feature: 'debugging', description: 'stepping' });
+        assert.ok('debugging' in registry.advertise());
+        declaration.dispose();
+        assert.ok(!('debugging' in registry.advertise()));
+    });
+});
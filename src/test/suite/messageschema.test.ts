@@ -0,0 +1,61 @@
+/**
+ * Tests for runtime validation of viewer message params
+ */
+
+import * as assert from 'assert';
+import { validateMessage, MessageSchema } from '../../shared/messageschema';
+import { VIEWER_MESSAGE_SCHEMAS } from '../../viewermessageschemas';
+
+suite('Message Schema Validation', () => {
+    const compiled = VIEWER_MESSAGE_SCHEMAS['script.compiled'];
+    const runtimeError = VIEWER_MESSAGE_SCHEMAS['runtime.error'];
+    const handshake = VIEWER_MESSAGE_SCHEMAS['session.handshake'];
+
+    test('accepts well formed messages and unknown extra fields', () => {
+        assert.strictEqual(validateMessage(compiled, { script_id: 'a', success: true, running: true }), undefined);
+        assert.strictEqual(validateMessage(compiled, {
+            script_id: 'a', success: false, running: false,
+            errors: [{ row: 3, column: 1, level: 'ERROR', message: 'oops' }],
+            added_in_a_later_viewer: 42,
+        }), undefined);
+        assert.strictEqual(validateMessage(runtimeError, {
+            script_id: 'a', object_id: 'o', object_name: 'Box', message: 'm', error: 'e', line: 7, stack: ['main.luau:7'],
+        }), undefined);
+    });
+
+    test('names the missing or mistyped field', () => {
+        assert.deepStrictEqual(validateMessage(compiled, { success: true, running: true }),
+            { field: 'params.script_id', message: 'is required' });
+        assert.deepStrictEqual(validateMessage(compiled, { script_id: 'a', success: 'yes', running: true }),
+            { field: 'params.success', message: 'expected boolean, got string' });
+        assert.deepStrictEqual(validateMessage(runtimeError, {
+            script_id: 'a', object_id: 'o', object_name: 'Box', message: 'm', error: 'e', line: '7',
+        }), { field: 'params.line', message: 'expected number, got string' });
+    });
+
+    test('reports the path into nested arrays and maps', () => {
+        assert.deepStrictEqual(validateMessage(compiled, {
+            script_id: 'a', success: false, running: false,
+            errors: [{ row: 1, column: 1, level: 'ERROR', message: 'ok' }, { row: null, column: 1, level: 'ERROR', message: 'bad' }],
+        }), { field: 'params.errors[1].row', message: 'is required' });
+
+        assert.deepStrictEqual(validateMessage(handshake, {
+            server_version: '1.0.0', protocol_version: '1.0', viewer_name: 'V', viewer_version: '1', agent_id: 'a',
+            agent_name: 'A', languages: ['lsl'], syntax_id: 's', features: { live_sync: 'on' },
+        }), { field: 'params.features.live_sync', message: 'expected boolean, got string' });
+    });
+
+    test('rejects params that are not an object', () => {
+        assert.deepStrictEqual(validateMessage(compiled, undefined),
+            { field: 'params', message: 'expected object, got undefined' });
+        assert.deepStrictEqual(validateMessage(compiled, [1, 2]),
+            { field: 'params', message: 'expected object, got array' });
+    });
+
+    test('treats NaN and Infinity as invalid numbers', () => {
+        const schema: MessageSchema<{ value: number }> = { value: { type: 'number' } };
+        assert.ok(validateMessage(schema, { value: 1.5 }) === undefined);
+        assert.deepStrictEqual(validateMessage(schema, { value: NaN }),
+            { field: 'params.value', message: 'expected number, got NaN' });
+    });
+});
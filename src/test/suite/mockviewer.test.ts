@@ -0,0 +1,308 @@
+/**
+ * Tests for the mock viewer server used for offline development and
+ * integration testing. These drive the mock with a bare WebSocket client
+ * so they run without the VS Code extension host.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { MockViewer } from '../../server/mockviewer';
+
+/**
+ * Minimal JSON-RPC editor side used to talk to the mock
+ */
+class TestEditor {
+    public readonly notifications: { method: string; params: any }[] = [];
+    private socket: WebSocket;
+    private nextId = 1000;
+    private pending = new Map<number, (result: any) => void>();
+
+    constructor(port: number, private readonly onHandshake: (params: any) => Promise<any> | any) {
+        this.socket = new WebSocket(`ws://localhost:${port}`);
+        this.socket.on('message', async (data) => {
+            const message = JSON.parse(data.toString());
+            if (message.method && message.id !== undefined) {
+                const result = await this.onHandshake(message.params);
+                this.socket.send(JSON.stringify({ jsonrpc: '2.0', id: message.id, result }));
+            } else if (message.method) {
+                this.notifications.push({ method: message.method, params: message.params });
+            } else {
+                this.pending.get(message.id)?.(message.error ?? message.result);
+                this.pending.delete(message.id);
+            }
+        });
+    }
+
+    public call(method: string, params?: any): Promise<any> {
+        return new Promise((resolve) => {
+            const id = this.nextId++;
+            this.pending.set(id, resolve);
+            this.socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+        });
+    }
+
+    public async waitForNotification(method: string, timeoutMs: number = 2000): Promise<any> {
+        const start = Date.now();
+        while (Date.now() - start < timeoutMs) {
+            const found = this.notifications.find(n => n.method === method);
+            if (found) {
+                return found.params;
+            }
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        throw new Error(`Timed out waiting for ${method}`);
+    }
+
+    public close(): void {
+        this.socket.terminate();
+    }
+}
+
+const handshakeResponse = (challengeResponse?: string): any => ({
+    client_name: 'test-editor',
+    client_version: '1.0',
+    protocol_version: '1.0',
+    languages: ['lsl', 'luau'],
+    features: { live_sync: true },
+    ...(challengeResponse !== undefined ? { challenge_response: challengeResponse } : {}),
+});
+
+suite('Mock Viewer', () => {
+    let scriptDir: string;
+    let viewer: MockViewer;
+    let editor: TestEditor | undefined;
+
+    setup(async () => {
+        scriptDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sl-mock-viewer-test-'));
+    });
+
+    teardown(async () => {
+        editor?.close();
+        editor = undefined;
+        await viewer.stop();
+        await fs.promises.rm(scriptDir, { recursive: true, force: true });
+    });
+
+    test('completes handshake and sends session.ok', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir, agentName: 'Test Resident' });
+        const port = await viewer.start();
+
+        let handshake: any;
+        editor = new TestEditor(port, (params) => {
+            handshake = params;
+            return handshakeResponse();
+        });
+
+        await viewer.waitForSession();
+        await editor.waitForNotification('session.ok');
+        assert.strictEqual(handshake.agent_name, 'Test Resident');
+        assert.strictEqual(handshake.challenge, undefined);
+        assert.ok(viewer.isSessionEstablished());
+    });
+
+    test('verifies challenge file contents', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir, challenge: true });
+        const port = await viewer.start();
+
+        editor = new TestEditor(port, async (params) => {
+            assert.ok(params.challenge, 'Expected a challenge file');
+            const token = await fs.promises.readFile(params.challenge, 'utf8');
+            return handshakeResponse(token);
+        });
+
+        await viewer.waitForSession();
+        assert.ok(viewer.isSessionEstablished());
+    });
+
+    test('disconnects on a wrong challenge response', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir, challenge: true });
+        const port = await viewer.start();
+
+        const failed = new Promise(resolve => viewer.once('handshakeFailed', resolve));
+        editor = new TestEditor(port, () => handshakeResponse('not the token'));
+
+        await failed;
+        const disconnect = await editor.waitForNotification('session.disconnect');
+        assert.strictEqual(disconnect.message, 'Challenge failed');
+        assert.ok(!viewer.isSessionEstablished());
+    });
+
+    test('serves syntax id and definitions', async () => {
+        viewer = new MockViewer({
+            port: 0,
+            scriptDir,
+            syntaxId: 'syntax-42',
+            syntax: { lsl: { functions: { llSay: {} } } },
+        });
+        const port = await viewer.start();
+        editor = new TestEditor(port, () => handshakeResponse());
+        await viewer.waitForSession();
+
+        const id = await editor.call('language.syntax.id');
+        assert.deepStrictEqual(id, { id: 'syntax-42' });
+
+        const lsl = await editor.call('language.syntax', { kind: 'defs.lsl' });
+        assert.strictEqual(lsl.success, true);
+        assert.ok(lsl.defs.functions.llSay);
+
+        const unknown = await editor.call('language.syntax', { kind: 'defs.other' });
+        assert.strictEqual(unknown.success, false);
+    });
+
+    test('accepts and rejects subscriptions by rule', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const port = await viewer.start();
+        const good = await viewer.createScript('good', 'lsl');
+        const bad = await viewer.createScript('bad', 'luau');
+        viewer.rejectSubscription('bad', 'No modify permission');
+
+        editor = new TestEditor(port, () => handshakeResponse());
+        await viewer.waitForSession();
+
+        const accepted = await editor.call('script.subscribe', {
+            script_id: good.script_id, script_name: 'good.lsl', script_language: 'lsl',
+        });
+        const rejected = await editor.call('script.subscribe', {
+            script_id: bad.script_id, script_name: 'bad.luau', script_language: 'luau',
+        });
+
+        assert.strictEqual(accepted.success, true);
+        assert.strictEqual(rejected.success, false);
+        assert.strictEqual(rejected.message, 'No modify permission');
+        assert.deepStrictEqual(viewer.getSubscriptions(), [good.script_id]);
+    });
+
+    test('rejects unknown scripts when configured like a real viewer', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir, acceptUnknownScripts: false });
+        const port = await viewer.start();
+        const known = await viewer.createScript('known', 'lsl');
+
+        editor = new TestEditor(port, () => handshakeResponse());
+        await viewer.waitForSession();
+
+        const accepted = await editor.call('script.subscribe', {
+            script_id: known.script_id, script_name: 'known.lsl', script_language: 'lsl',
+        });
+        const rejected = await editor.call('script.subscribe', {
+            script_id: '0123456789abcdef0123456789abcdef', script_name: 'other.lsl', script_language: 'lsl',
+        });
+
+        assert.strictEqual(accepted.success, true);
+        assert.strictEqual(rejected.success, false);
+        assert.strictEqual(rejected.status, 404);
+        assert.deepStrictEqual(viewer.getSubscriptions(), [known.script_id]);
+    });
+
+    test('creates viewer style temp files', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        await viewer.start();
+        const script = await viewer.createScript('my_script', 'luau', 'print("hi")');
+
+        const pattern = /^sl_script_(.+)_([a-fA-F0-9]{32}|[a-fA-F0-9-]{36})\.(luau|lsl)$/;
+        const match = path.basename(script.file!).match(pattern);
+        assert.ok(match, `Unexpected temp file name ${script.file}`);
+        assert.strictEqual(match![1], 'my_script');
+        assert.strictEqual(match![2], script.script_id);
+        assert.strictEqual(await fs.promises.readFile(script.file!, 'utf8'), 'print("hi")');
+    });
+
+    test('replies to a save of a subscribed script with scripted errors', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const port = await viewer.start();
+        const script = await viewer.createScript('main', 'lsl');
+        viewer.onSave('main', (content) => content.includes('oops')
+            ? [{ row: 2, column: 5, level: 'ERROR', message: 'syntax error' }]
+            : []);
+
+        editor = new TestEditor(port, () => handshakeResponse());
+        await viewer.waitForSession();
+        await editor.call('script.subscribe', {
+            script_id: script.script_id, script_name: 'main.lsl', script_language: 'lsl',
+        });
+
+        const compiled = new Promise<any>(resolve => viewer.once('compiled', resolve));
+        await fs.promises.writeFile(script.file!, 'default {\n    oops\n}\n', 'utf8');
+        const result = await compiled;
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.errors[0].row, 2);
+        const notification = await editor.waitForNotification('script.compiled');
+        assert.strictEqual(notification.script_id, script.script_id);
+        assert.strictEqual(notification.errors[0].message, 'syntax error');
+    });
+
+    test('reports a failed save of a subscribed script', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const port = await viewer.start();
+        const script = await viewer.createScript('broken', 'lsl');
+        viewer.onSave('broken', () => {
+            throw new Error('rule failed');
+        });
+
+        editor = new TestEditor(port, () => handshakeResponse());
+        await viewer.waitForSession();
+        await editor.call('script.subscribe', {
+            script_id: script.script_id, script_name: 'broken.lsl', script_language: 'lsl',
+        });
+
+        const failed = new Promise<[any, Error]>(resolve => viewer.once('saveError', (...args: [any, Error]) => resolve(args)));
+        await fs.promises.writeFile(script.file!, 'default {}', 'utf8');
+        const [failedScript, error] = await failed;
+        assert.strictEqual(failedScript.script_id, script.script_id);
+        assert.strictEqual(error.message, 'rule failed');
+    });
+
+    test('simulateSave without a rule compiles cleanly', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir, autoCompile: false });
+        const port = await viewer.start();
+        const script = await viewer.createScript('clean', 'lsl', 'default {}');
+
+        editor = new TestEditor(port, () => handshakeResponse());
+        await viewer.waitForSession();
+
+        const result = await viewer.simulateSave(script.script_id);
+        assert.deepStrictEqual(result, { script_id: script.script_id, success: true, running: true });
+    });
+
+    test('sends runtime notifications and records traffic', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const port = await viewer.start();
+        const script = await viewer.createScript('runtime', 'luau');
+
+        editor = new TestEditor(port, () => handshakeResponse());
+        await viewer.waitForSession();
+
+        viewer.sendRuntimeDebug(script.script_id, 'hello');
+        viewer.sendRuntimeError(script.script_id, 'attempt to index nil', 12, ['runtime.luau:12']);
+
+        const debug = await editor.waitForNotification('runtime.debug');
+        const error = await editor.waitForNotification('runtime.error');
+        assert.strictEqual(debug.message, 'hello');
+        assert.strictEqual(debug.object_id, script.object_id);
+        assert.strictEqual(error.line, 12);
+        assert.deepStrictEqual(error.stack, ['runtime.luau:12']);
+
+        const methods = viewer.traffic.filter(t => t.direction === 'out').map(t => t.message.method);
+        assert.deepStrictEqual(methods, ['session.handshake', 'session.ok', 'runtime.debug', 'runtime.error']);
+    });
+
+    test('closes the connection when the editor disconnects', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const port = await viewer.start();
+        editor = new TestEditor(port, () => handshakeResponse());
+        await viewer.waitForSession();
+
+        const closed = new Promise(resolve => viewer.once('closed', resolve));
+        const disconnect = viewer.waitFor('session.disconnect');
+        (editor as any).socket.send(JSON.stringify({
+            jsonrpc: '2.0', method: 'session.disconnect', params: { reason: 0, message: 'bye' },
+        }));
+
+        assert.strictEqual((await disconnect).message, 'bye');
+        await closed;
+        assert.ok(!viewer.isSessionEstablished());
+    });
+});
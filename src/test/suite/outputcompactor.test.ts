@@ -0,0 +1,84 @@
+/**
+ * Tests for compacting preprocessed output and its line map
+ */
+
+import * as assert from 'assert';
+import { Lexer } from '../../shared/lexer';
+import { LineMapper } from '../../shared/linemapper';
+import { ScriptLanguage } from '../../shared/languageservice';
+import { CompactedOutput, compactTokens, parseLineMapSidecar, serializeLineMapSidecar } from '../../shared/outputcompactor';
+import { NormalizedPath } from '../../interfaces/hostinterface';
+
+const MAIN = '/work/main.lsl' as NormalizedPath;
+const INCLUDE = '/work/utils.lsl' as NormalizedPath;
+
+function compact(source: string, language: ScriptLanguage = 'lsl'): CompactedOutput {
+    return compactTokens(new Lexer(source, language).tokenize(), language, MAIN);
+}
+
+suite('Output Compactor', () => {
+    test('drops comments, indentation, blank lines and @line directives', () => {
+        const output = [
+            `// @line 1 "${INCLUDE}"`,
+            '// Adds two numbers',
+            'integer add(integer a, integer b)',
+            '{',
+            '',
+            '    return a  +  b;   // sum',
+            '}',
+            `// @line 3 "${MAIN}"`,
+            'default',
+            '{',
+            '    state_entry() { llOwnerSay((string)add(1, -2)); }',
+            '}',
+            '',
+        ].join('\n');
+
+        const result = compact(output);
+
+        assert.strictEqual(result.source, [
+            'integer add(integer a,integer b)',
+            '{',
+            'return a+b;',
+            '}',
+            'default',
+            '{',
+            'state_entry(){llOwnerSay((string)add(1,-2));}',
+            '}',
+            '',
+        ].join('\n'));
+        assert.deepStrictEqual(
+            result.mappings.map((mapping) => [mapping.processedLine, mapping.sourceFile, mapping.originalLine]),
+            [
+                [1, INCLUDE, 2], [2, INCLUDE, 3], [3, INCLUDE, 5], [4, INCLUDE, 6],
+                [5, MAIN, 3], [6, MAIN, 4], [7, MAIN, 5], [8, MAIN, 6],
+            ],
+        );
+        assert.deepStrictEqual(LineMapper.convertAbsoluteLineToSource(result.mappings, 7), { source: MAIN, line: 5 });
+    });
+
+    test('keeps the space that separates tokens', () => {
+        assert.strictEqual(compact('x = a - -b;  y = a + +b;\n').source, 'x=a- -b;y=a+ +b;\n');
+        assert.strictEqual(
+            compact('local s = 1 .. "x" .. 2\nif not  done and t[ [[k]] ] then end\n', 'luau').source,
+            'local s=1 .."x".. 2\nif not done and t[ [[k]]]then end\n',
+        );
+    });
+
+    test('keeps lines either side of a comment spanning lines apart', () => {
+        const result = compact('a = 1; /* one\ntwo */ b = 2;\nc = 3;\n');
+
+        assert.strictEqual(result.source, 'a=1;\nb=2;\nc=3;\n');
+        assert.deepStrictEqual(result.mappings.map((mapping) => mapping.originalLine), [1, 2, 3]);
+    });
+
+    test('reads back the line map of the same content only', () => {
+        const { mappings } = compact('a = 1;\n\nb = 2;\n');
+        const sidecar = serializeLineMapSidecar('abc', mappings);
+
+        assert.deepStrictEqual(parseLineMapSidecar(sidecar, 'abc'), mappings);
+        assert.strictEqual(parseLineMapSidecar(sidecar, 'def'), undefined);
+        assert.strictEqual(parseLineMapSidecar('{"hash":"abc","mappings":[{"processedLine":1}]}', 'abc'), undefined);
+        assert.strictEqual(parseLineMapSidecar('not json', 'abc'), undefined);
+    });
+});
@@ -166,4 +166,46 @@ some code`;
             [1, 1, np('/path/to/file.lsl')]
         ]);
     });
+    test('should strip @line directives and keep everything else', () => {
+        const content = [
+            'integer a = 1;',
+            '// @line 1 "unittest:///utils.lsl"',
+            'helper() {}',
+            '    // @line 7 "unittest:///main.lsl"',
+            'default {}',
+        ].join('\n');
+
+        assert.strictEqual(
+            LineMapper.stripLineDirectives(content, "lsl"),
+            'integer a = 1;\nhelper() {}\ndefault {}',
+        );
+        // Luau directives use the Lua comment prefix
+        assert.strictEqual(LineMapper.stripLineDirectives(content, "luau"), content);
+    });
+
+    test('should extract the main source without included content', () => {
+        const content = [
+            '-- @line 1 "unittest:///lib/outer.luau"',
+            'local outer = {}',
+            '-- @line 1 "unittest:///lib/inner.luau"',
+            'local inner = {}',
+            '-- @line 3 "unittest:///lib/outer.luau"',
+            'outer.x = 1',
+            '-- @line 2 "unittest:///main.luau"',
+            'local a = 1',
+            '-- @line 10 "unittest:///main.luau"',
+            'print(a)',
+        ].join('\n');
+
+        assert.strictEqual(LineMapper.extractMainSource(content, "luau"), 'local a = 1\nprint(a)');
+
+        const withPreamble = [
+            'integer a = 1;',
+            '// @line 1 "unittest:///utils.lsl"',
+            'helper() {}',
+            '// @line 3 "unittest:///main.lsl"',
+            'default {}',
+        ].join('\n');
+        assert.strictEqual(LineMapper.extractMainSource(withPreamble, "lsl"), 'integer a = 1;\ndefault {}');
+    });
 });
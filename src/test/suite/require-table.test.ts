@@ -15,6 +15,7 @@ import * as path from 'path';
 import { Parser } from '../../shared/parser';
 import { Lexer } from '../../shared/lexer';
 import { NormalizedPath, normalizePath } from '../../interfaces/hostinterface';
+import { LineMapper } from '../../shared/linemapper';
 
 suite('Require Table Tests', () => {
     const testFile = normalizePath('/test/main.luau');
@@ -200,6 +201,31 @@ suite('Require Table Tests', () => {
         assert.ok(result.source.includes('module.luau'), 'Should reference module file');
     });
 
+    test('should return to the main file with a @line directive after the table', async () => {
+        const moduleFile = normalizePath('/test/module.luau');
+        const files = new Map<NormalizedPath, string>();
+        const source = 'local a = 1\nlocal m = require("module.luau")';
+        files.set(moduleFile, 'local x = 42');
+        files.set(testFile, source);
+
+        const host = createMockHost(files);
+
+        const lexer = new Lexer(source, 'luau');
+        const tokens = lexer.tokenize();
+
+        const parser = new Parser(tokens, testFile, 'luau', host);
+        const result = await parser.parse();
+
+        // Same form as every other directive, so the line mapper reads it
+        const lines = result.source.split('\n');
+        const reset = lines.indexOf('-- @line 1 "unittest:///test/main.luau"');
+        assert.ok(reset > lines.indexOf('end)'), 'Should reset to the main file after the wrapped modules');
+        assert.strictEqual(lines[reset + 1], 'local a = 1');
+
+        const mappings = LineMapper.parseLineMappingsFromContent(result.source, 'luau', host);
+        assert.deepStrictEqual(mappings.map(mapping => mapping.sourceFile), [moduleFile, testFile]);
+    });
+
     test('should not emit table if no requires', async () => {
         const source = 'local x = 42';
         const lexer = new Lexer(source, 'luau');
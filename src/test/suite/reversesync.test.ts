@@ -0,0 +1,84 @@
+/**
+ * Tests for tracing edits made to a viewer copy back to the source files
+ */
+
+import * as assert from 'assert';
+import { diffLines, mapChangesToSources, applySourceEdits } from '../../shared/reversesync';
+
+const INCLUDE = 'unittest:///utils.lsl';
+const MAIN = 'unittest:///main.lsl';
+
+// main.lsl is `#include "utils.lsl"` on line 1, a blank line, then the
+// default state from line 3
+const written = [
+    `// @line 1 "${INCLUDE}"`,
+    'integer add(integer a, integer b) {',
+    '    return a + b;',
+    '}',
+    `// @line 3 "${MAIN}"`,
+    'default {',
+    '    state_entry() {',
+    '        llOwnerSay((string)add(1, 2));',
+    '    }',
+    '}',
+].join('\n');
+
+function edit(lines: string[], at: number, remove: number, ...insert: string[]): string {
+    const copy = [...lines];
+    copy.splice(at, remove, ...insert);
+    return copy.join('\n');
+}
+
+suite('Reverse Sync', () => {
+    const lines = written.split('\n');
+
+    test('finds the changed regions between two versions', () => {
+        assert.deepStrictEqual(diffLines(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e']), [
+            { beforeStart: 1, beforeEnd: 2, afterStart: 1, afterEnd: 2 },
+            { beforeStart: 4, beforeEnd: 4, afterStart: 4, afterEnd: 5 },
+        ]);
+        assert.deepStrictEqual(diffLines(['a', 'b'], ['a', 'b']), []);
+    });
+
+    test('maps changed lines to the main script and included files', () => {
+        const current = edit(
+            edit(lines, 7, 1, '        llOwnerSay((string)add(3, 4));').split('\n'),
+            2, 1, '    return b + a;',
+        );
+        const result = mapChangesToSources(written, current, 'lsl');
+
+        assert.deepStrictEqual(result.unmapped, []);
+        assert.deepStrictEqual(result.edits, [
+            { file: INCLUDE, startLine: 2, endLine: 3, lines: ['    return b + a;'] },
+            { startLine: 5, endLine: 6, lines: ['        llOwnerSay((string)add(3, 4));'] },
+        ]);
+    });
+
+    test('puts lines added at the end of an include into the main script', () => {
+        const current = edit(lines, 4, 0, 'integer counter;');
+        const result = mapChangesToSources(written, current, 'lsl');
+
+        assert.deepStrictEqual(result.edits, [{ startLine: 3, endLine: 3, lines: ['integer counter;'] }]);
+
+        const main = '#include "utils.lsl"\n\ndefault {\n}';
+        assert.strictEqual(applySourceEdits(main, result.edits), '#include "utils.lsl"\n\ninteger counter;\ndefault {\n}');
+    });
+
+    test('ignores directive edits and reports changes spanning files', () => {
+        assert.deepStrictEqual(mapChangesToSources(written, edit(lines, 4, 1), 'lsl'), { edits: [], unmapped: [] });
+
+        const result = mapChangesToSources(written, edit(lines, 3, 3, '} default {'), 'lsl');
+        assert.deepStrictEqual(result.edits, []);
+        assert.strictEqual(result.unmapped.length, 1);
+        assert.strictEqual(result.unmapped[0].processedLine, 4);
+        assert.deepStrictEqual(result.unmapped[0].lines, ['} default {']);
+    });
+
+    test('maps content without directives line for line and keeps line endings', () => {
+        const plain = 'default {\r\n    touch_start(integer n) {\r\n    }\r\n}';
+        const result = mapChangesToSources(plain, plain.replace('touch_start', 'touch_end'), 'lsl');
+
+        assert.deepStrictEqual(result.edits, [{ startLine: 2, endLine: 3, lines: ['    touch_end(integer n) {'] }]);
+        assert.strictEqual(applySourceEdits(plain, result.edits), plain.replace('touch_start', 'touch_end'));
+    });
+});
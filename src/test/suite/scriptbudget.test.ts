@@ -0,0 +1,55 @@
+/**
+ * Tests for the size and memory checks run on preprocessed output
+ */
+
+import * as assert from 'assert';
+import { analyzeBudget, estimateMemory, stripComments } from '../../shared/scriptbudget';
+
+const INCLUDE = 'unittest:///utils.lsl';
+const MAIN = 'unittest:///main.lsl';
+
+const output = [
+    `// @line 1 "${INCLUDE}"`,
+    '// Adds two numbers',
+    'integer add(integer a, integer b) {',
+    '    return a + b;',
+    '}',
+    `// @line 2 "${MAIN}"`,
+    'default {',
+    '    state_entry() { llOwnerSay("// not a comment"); }',
+    '}',
+].join('\n');
+
+suite('Script Budget', () => {
+    test('removes comments but keeps strings and line breaks', () => {
+        assert.strictEqual(
+            stripComments('a = 1; // one\n/* two\nlines */ b = "/* kept */";', 'lsl'),
+            'a = 1; \n\n b = "/* kept */";',
+        );
+        assert.strictEqual(
+            stripComments('local a = 1 -- one\n--[==[ two\n]==] local b = "-- kept" .. [[--also]]', 'luau'),
+            'local a = 1 \n\n local b = "-- kept" .. [[--also]]',
+        );
+    });
+
+    test('attributes output to the files it came from', () => {
+        const report = analyzeBudget(output, 'lsl', { sourceBytes: 65536, memoryBytes: 65536 });
+
+        assert.strictEqual(report.sourceBytes, Buffer.byteLength(output));
+        assert.strictEqual(report.contributions.reduce((total, entry) => total + entry.sourceBytes, 0), report.sourceBytes);
+        const lines = new Map(report.contributions.map((entry) => [entry.file, entry.lines]));
+        assert.deepStrictEqual([lines.get(INCLUDE), lines.get(undefined), lines.size], [5, 4, 2]);
+        const include = report.contributions.find((entry) => entry.file === INCLUDE);
+        assert.strictEqual(include?.codeBytes, Buffer.byteLength('integer add(integer a, integer b) {return a + b;}'));
+        assert.strictEqual(report.estimatedMemory, estimateMemory(report.codeBytes, 'lsl'));
+        assert.deepStrictEqual(report.problems, []);
+    });
+
+    test('reports each budget exceeded', () => {
+        const report = analyzeBudget(output, 'lsl', { sourceBytes: 100, memoryBytes: 1000 });
+        assert.deepStrictEqual(report.problems, [
+            { kind: 'source', value: report.sourceBytes, limit: 100 },
+            { kind: 'memory', value: report.estimatedMemory, limit: 1000 },
+        ]);
+    });
+});
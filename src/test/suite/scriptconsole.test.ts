@@ -0,0 +1,64 @@
+/**
+ * Tests for grouping, filtering and exporting script console messages
+ */
+
+import * as assert from 'assert';
+import {
+    ConsoleMessage,
+    compileConsolePattern,
+    findHighlights,
+    formatConsoleExport,
+    groupConsoleMessages,
+    matchesConsolePattern,
+} from '../../shared/scriptconsole';
+
+function message(objectId: string, scriptId: string, text: string, extra: Partial<ConsoleMessage> = {}): ConsoleMessage {
+    return { timestamp: Date.UTC(2025, 0, 2, 3, 4, 5), objectId, objectName: `Object ${objectId}`, scriptId, message: text, ...extra };
+}
+
+suite('Script Console', () => {
+    test('groups messages by object and script in the order first heard from', () => {
+        const messages = [
+            message('o2', 's3', 'ready'),
+            message('o1', 's1', 'one', { script: 'door.lsl' }),
+            message('o1', 's2', 'two'),
+            message('o1', 's1', 'three', { objectName: 'Renamed' }),
+        ];
+
+        const groups = groupConsoleMessages(messages);
+
+        assert.deepStrictEqual(groups.map((group) => [group.objectId, group.objectName]), [['o2', 'Object o2'], ['o1', 'Renamed']]);
+        assert.deepStrictEqual(
+            groups[1].scripts.map((script) => [script.scriptId, script.script, script.messages.map((entry) => entry.message)]),
+            [['s1', 'door.lsl', ['one', 'three']], ['s2', undefined, ['two']]],
+        );
+    });
+
+    test('matches text regardless of case and /regex/ as written', () => {
+        const entry = message('o1', 's1', 'Health: 42 (a+b)', { script: 'door.lsl' });
+
+        assert.ok(matchesConsolePattern(entry, compileConsolePattern('health')));
+        assert.ok(matchesConsolePattern(entry, compileConsolePattern('(a+b)')));
+        assert.ok(matchesConsolePattern(entry, compileConsolePattern('door')));
+        assert.ok(matchesConsolePattern(entry, compileConsolePattern('/\\d{2}/')));
+        assert.ok(!matchesConsolePattern(entry, compileConsolePattern('/health/')));
+        assert.throws(() => compileConsolePattern('/(/'), SyntaxError);
+    });
+
+    test('finds every highlighted range, merging overlaps', () => {
+        const patterns = [compileConsolePattern('err'), compileConsolePattern('/or\\b/'), compileConsolePattern('/x*/')];
+
+        assert.deepStrictEqual(findHighlights('error: mirror err', patterns), [[0, 5], [11, 13], [14, 17]]);
+        assert.deepStrictEqual(findHighlights('error', [compileConsolePattern('erro'), compileConsolePattern('rror')]), [[0, 5]]);
+    });
+
+    test('exports one line per message', () => {
+        const text = formatConsoleExport([message('o1', 's1', 'hello', { script: 'door.lsl' }), message('o1', 's2', 'bye')]);
+
+        assert.strictEqual(text, [
+            '[2025-01-02T03:04:05.000Z] Object o1 (o1) door.lsl: hello',
+            '[2025-01-02T03:04:05.000Z] Object o1 (o1) s2: bye',
+            '',
+        ].join('\n'));
+    });
+});
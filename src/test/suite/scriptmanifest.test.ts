@@ -0,0 +1,81 @@
+/**
+ * Tests for the workspace manifest mapping viewer scripts to master files
+ */
+
+import * as assert from 'assert';
+import {
+    ScriptIdentity,
+    ScriptManifest,
+    parseManifest,
+    serializeManifest,
+    findManifestEntries,
+    rememberMaster,
+} from '../../shared/scriptmanifest';
+
+const DOOR_ID = '11111111-1111-1111-1111-111111111111';
+const LIFT_ID = '22222222-2222-2222-2222-222222222222';
+
+function script(scriptId: string, objectName?: string): ScriptIdentity {
+    return { scriptName: 'main', scriptId, extension: 'lsl', objectName };
+}
+
+suite('Script Manifest', () => {
+    let manifest: ScriptManifest;
+
+    setup(() => {
+        manifest = parseManifest(JSON.stringify({
+            scripts: [
+                { master: 'door/main.lsl', name: 'main', object: 'Front Door' },
+                { master: 'lift/main.lsl', name: 'main.lsl', scriptIds: [LIFT_ID] },
+                { master: 'shared/main.lsl', name: 'main' },
+            ],
+        }));
+    });
+
+    test('matches script IDs before names', () => {
+        assert.deepStrictEqual(findManifestEntries(manifest, script(LIFT_ID)).map(e => e.master), ['lift/main.lsl']);
+        // Names match with or without the extension
+        assert.deepStrictEqual(
+            findManifestEntries(manifest, script(DOOR_ID)).map(e => e.master),
+            ['lift/main.lsl', 'shared/main.lsl'],
+        );
+    });
+
+    test('narrows name matches by object once the object is known', () => {
+        assert.deepStrictEqual(
+            findManifestEntries(manifest, script(DOOR_ID, 'Front Door')).map(e => e.master),
+            ['door/main.lsl', 'lift/main.lsl', 'shared/main.lsl'],
+        );
+        assert.deepStrictEqual(
+            findManifestEntries(manifest, script(DOOR_ID, 'Back Door')).map(e => e.master),
+            ['lift/main.lsl', 'shared/main.lsl'],
+        );
+    });
+
+    test('remembers a choice under the script ID', () => {
+        rememberMaster(manifest, script(DOOR_ID, 'Front Door'), 'door/main.lsl');
+        assert.deepStrictEqual(findManifestEntries(manifest, script(DOOR_ID)).map(e => e.master), ['door/main.lsl']);
+        assert.deepStrictEqual(manifest.scripts[0].scriptIds, [DOOR_ID]);
+
+        // Choosing another master moves the ID there
+        rememberMaster(manifest, script(DOOR_ID), 'doors/front.lsl');
+        assert.strictEqual(manifest.scripts[0].scriptIds, undefined);
+        assert.deepStrictEqual(manifest.scripts[3], { master: 'doors/front.lsl', name: 'main', scriptIds: [DOOR_ID] });
+
+        rememberMaster(manifest, script(DOOR_ID), 'doors/front.lsl');
+        assert.strictEqual(manifest.scripts.length, 4);
+        assert.deepStrictEqual(parseManifest(serializeManifest(manifest)), manifest);
+    });
+
+    test('reports malformed manifests and keeps unknown properties', () => {
+        assert.throws(() => parseManifest('{ "scripts": ['), /Invalid JSON in sl-scripts\.json/);
+        assert.throws(() => parseManifest('{}'), /manifest\.scripts is required/);
+        assert.throws(
+            () => parseManifest('{ "scripts": [{ "name": "main" }] }'),
+            /manifest\.scripts\[0\]\.master is required/,
+        );
+
+        const kept = parseManifest('{ "$comment": "checked in", "scripts": [] }');
+        assert.match(serializeManifest(kept), /"\$comment": "checked in"/);
+    });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for writing and reading Source Map v3 files
+ */
+
+import * as assert from 'assert';
+import { LineMapper, LineMapping } from '../../shared/linemapper';
+import { decodeMappings, decodeVlq, encodeMappings, encodeVlq, parseSourceMap, serializeSourceMap } from '../../shared/sourcemap';
+import { NormalizedPath } from '../../interfaces/hostinterface';
+
+const MAIN = '/work/main.lsl' as NormalizedPath;
+const INCLUDE = '/work/utils.lsl' as NormalizedPath;
+
+const sourceName = (file: NormalizedPath): string => `file://${file}`;
+const sourcePath = (source: string): NormalizedPath => source.replace('file://', '') as NormalizedPath;
+
+suite('Source Map', () => {
+    test('encodes base64 VLQ values', () => {
+        assert.deepStrictEqual([0, 1, -1, 15, 16, 123, -2048].map(encodeVlq), ['A', 'C', 'D', 'e', 'gB', '2H', 'hgE']);
+        assert.deepStrictEqual(decodeVlq('ACDegB2HhgE'), [0, 1, -1, 15, 16, 123, -2048]);
+        assert.throws(() => decodeVlq('g'), /Truncated/);
+    });
+
+    test('encodes fields relative to the previous segment', () => {
+        const lines = [[[0, 0, 0, 0]], [], [[4, 1, 9, 2, 0], [10, 1, 9, 8]]];
+        const mappings = encodeMappings(lines);
+
+        assert.strictEqual(mappings, 'AAAA;;ICSEA,MAAM');
+        assert.deepStrictEqual(decodeMappings(mappings), lines);
+    });
+
+    test('round trips line mappings with their columns', () => {
+        const lineMappings: LineMapping[] = [
+            { processedLine: 1, sourceFile: INCLUDE, originalLine: 2 },
+            { processedLine: 2, sourceFile: INCLUDE, originalLine: 3 },
+            {
+                processedLine: 3,
+                sourceFile: MAIN,
+                originalLine: 7,
+                columns: [
+                    { processedColumn: 1, originalColumn: 5 },
+                    { processedColumn: 9, originalColumn: 13, length: 8, macro: { name: 'CHECK', line: 1, column: 18 } },
+                ],
+            },
+        ];
+
+        const map = LineMapper.toSourceMap(lineMappings, 3, 'main.lsl', sourceName);
+
+        assert.deepStrictEqual(map.sources, ['file:///work/utils.lsl', 'file:///work/main.lsl']);
+        assert.deepStrictEqual(map.names, ['CHECK']);
+        assert.deepStrictEqual(parseSourceMap(serializeSourceMap(map)), map);
+        assert.deepStrictEqual(LineMapper.fromSourceMap(map, sourcePath), [
+            lineMappings[0],
+            lineMappings[1],
+            { ...lineMappings[2], columns: [{ processedColumn: 1, originalColumn: 5 }, { processedColumn: 9, originalColumn: 13 }] },
+        ]);
+    });
+
+    test('rejects documents that are not version 3 source maps', () => {
+        assert.strictEqual(parseSourceMap('{"version":2,"sources":[],"names":[],"mappings":""}'), undefined);
+        assert.strictEqual(parseSourceMap('{"version":3,"sources":[]}'), undefined);
+        assert.strictEqual(parseSourceMap('not json'), undefined);
+    });
+});
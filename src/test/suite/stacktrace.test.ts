@@ -0,0 +1,95 @@
+/**
+ * Tests for parsing SLua stack traces and mapping their frames to sources
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { Lexer } from '../../shared/lexer';
+import { LineMapping } from '../../shared/linemapper';
+import { Parser } from '../../shared/parser';
+import { describeStackFrame, parseStackFrame, symbolicateStack } from '../../shared/stacktrace';
+import { NormalizedPath, normalizePath } from '../../interfaces/hostinterface';
+
+const MAIN = normalizePath('/test/main.luau');
+const MODULE = normalizePath('/test/module.luau');
+
+const moduleSource = [
+    'local M = {}',
+    'function M.check(x)',
+    '    error("bad " .. x)',
+    'end',
+    'return M',
+].join('\n');
+
+const mainSource = [
+    'local m = require("module.luau")',
+    'local function run()',
+    '    m.check(1)',
+    'end',
+    'run()',
+].join('\n');
+
+async function preprocess(): Promise<{ source: string; mappings: LineMapping[] }> {
+    const files = new Map<NormalizedPath, string>([[MAIN, mainSource], [MODULE, moduleSource]]);
+    const host: any = {
+        config: {},
+        readFile: async (file: NormalizedPath): Promise<string | null> => files.get(file) ?? null,
+        exists: async (file: NormalizedPath): Promise<boolean> => files.has(file),
+        resolveFile: async (name: string, from: NormalizedPath): Promise<NormalizedPath | null> => {
+            const resolved = normalizePath(path.join(path.dirname(from), name));
+            return files.has(resolved) ? resolved : null;
+        },
+        fileNameToUri: (file: NormalizedPath): string => `unittest://${file}`,
+        uriToFileName: (uri: string): NormalizedPath => normalizePath(uri.replace(/^unittest:\/\//, '')),
+    };
+    return new Parser(new Lexer(mainSource, 'luau').tokenize(), MAIN, 'luau', host).parse();
+}
+
+suite('Stack Trace', () => {
+    test('parses the frame formats of the runtime', () => {
+        assert.deepStrictEqual(parseStackFrame('main.luau:7'), { text: 'main.luau:7', chunk: 'main.luau', line: 7 });
+        assert.deepStrictEqual(
+            parseStackFrame('  [string "main"]:12: in function \'check\''),
+            { text: '[string "main"]:12: in function \'check\'', chunk: 'main', line: 12, functionName: 'check' },
+        );
+        assert.deepStrictEqual(
+            parseStackFrame('main.luau:3 function __require_table[2]'),
+            { text: 'main.luau:3 function __require_table[2]', moduleId: 2, chunk: 'main.luau', line: 3, functionName: '__require_table[2]' },
+        );
+        assert.deepStrictEqual(parseStackFrame('[C] function error'), { text: '[C] function error', functionName: 'error' });
+        assert.deepStrictEqual(parseStackFrame('main.luau:5: in main chunk'), { text: 'main.luau:5: in main chunk', chunk: 'main.luau', line: 5 });
+        assert.deepStrictEqual(parseStackFrame('???'), { text: '???' });
+    });
+
+    test('maps frames in required modules to the module file', async () => {
+        const result = await preprocess();
+        const output = result.source.split('\n');
+        const errorLine = output.findIndex((text) => text.includes('error("bad "')) + 1;
+        const callLine = output.findIndex((text) => text.includes('m.check(1)')) + 1;
+
+        const frames = symbolicateStack(
+            ['[C] function error', `main.luau:${errorLine} function check`, `main.luau:${callLine} function run`, ''],
+            result.mappings,
+            MAIN,
+        );
+
+        assert.deepStrictEqual(frames.map((frame) => [frame.source, frame.originalLine]), [
+            [undefined, undefined],
+            [MODULE, 3],
+            [MAIN, 3],
+        ]);
+        assert.deepStrictEqual(frames.map((frame) => describeStackFrame(frame, path.basename)), [
+            '[C] function error',
+            'check (module.luau:3)',
+            'run (main.luau:3)',
+        ]);
+    });
+
+    test('uses the lines of the master file when the script was not preprocessed', () => {
+        const [frame] = symbolicateStack(['main.luau:4 function __require_table[1]'], undefined, MAIN);
+
+        assert.strictEqual(frame.source, MAIN);
+        assert.strictEqual(frame.originalLine, 4);
+        assert.strictEqual(describeStackFrame(frame), `module body (${MAIN}:4)`);
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for reading debug messages that follow the structured log convention
+ */
+
+import * as assert from 'assert';
+import { parseStructuredLog, resolveLogSource } from '../../shared/structuredlog';
+import { normalizePath } from '../../interfaces/hostinterface';
+
+const MAIN = normalizePath('/work/door.lsl');
+const INCLUDE = normalizePath('/work/lib/log.lsl');
+const OTHER = normalizePath('/work/other/log.lsl');
+
+suite('Structured Log', () => {
+    test('reads the tagged prefix form', () => {
+        assert.deepStrictEqual(parseStructuredLog('LOG|WARN|door|/work/door.lsl|12|opened by a|b'), {
+            level: 'warn',
+            tag: 'door',
+            file: '/work/door.lsl',
+            line: 12,
+            payload: 'opened by a|b',
+        });
+        assert.deepStrictEqual(parseStructuredLog('LOG|info||door.lsl|3|'), { level: 'info', file: 'door.lsl', line: 3, payload: '' });
+    });
+
+    test('reads the JSON form with a message, data or both', () => {
+        assert.deepStrictEqual(parseStructuredLog('{"log":"error","tag":"net","file":"door.lsl","line":7,"msg":"timeout","data":{"tries":3}}'), {
+            level: 'error',
+            tag: 'net',
+            file: 'door.lsl',
+            line: 7,
+            payload: 'timeout {"tries":3}',
+        });
+        assert.deepStrictEqual(parseStructuredLog('{"log":"debug","file":"door.lsl","line":2,"data":[1,2]}'), {
+            level: 'debug',
+            file: 'door.lsl',
+            line: 2,
+            payload: '[1,2]',
+        });
+    });
+
+    test('leaves other messages alone', () => {
+        assert.strictEqual(parseStructuredLog('Hello, Avatar!'), undefined);
+        assert.strictEqual(parseStructuredLog('LOG|loud|door|door.lsl|12|x'), undefined);
+        assert.strictEqual(parseStructuredLog('LOG|warn|door|door.lsl|twelve|x'), undefined);
+        assert.strictEqual(parseStructuredLog('LOG|warn|door'), undefined);
+        assert.strictEqual(parseStructuredLog('{"level":"warn","file":"door.lsl","line":1}'), undefined);
+        assert.strictEqual(parseStructuredLog('{"log":"warn","file":"door.lsl","line":"1"}'), undefined);
+        assert.strictEqual(parseStructuredLog('{not json'), undefined);
+    });
+
+    test('resolves full paths and unambiguous file names to sources', () => {
+        assert.strictEqual(resolveLogSource('/work/lib/../door.lsl', [MAIN, INCLUDE]), MAIN);
+        assert.strictEqual(resolveLogSource('door.lsl', [MAIN, INCLUDE]), MAIN);
+        assert.strictEqual(resolveLogSource('log.lsl', [MAIN, INCLUDE]), INCLUDE);
+        assert.strictEqual(resolveLogSource('log.lsl', [MAIN, INCLUDE, OTHER]), undefined);
+        assert.strictEqual(resolveLogSource('/elsewhere/missing.lsl', [MAIN]), undefined);
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for the index of snapshots of content written to the viewer
+ */
+
+import * as assert from 'assert';
+import {
+    SyncHistoryIndex,
+    SyncSnapshot,
+    addSnapshot,
+    parseHistory,
+    recordCompilation,
+    serializeHistory,
+    snapshotsOf,
+} from '../../shared/synchistory';
+
+const DOOR = '/work/door/main.lsl';
+const LIFT = '/work/lift/main.lsl';
+const SCRIPT_ID = '11111111-1111-1111-1111-111111111111';
+
+function snapshot(master: string, hash: string, timestamp: number, scriptIds: string[] = [SCRIPT_ID]): SyncSnapshot {
+    return { id: `${timestamp}-${hash}`, master, hash, timestamp, includes: [], scriptIds, results: {} };
+}
+
+suite('Sync History', () => {
+    let index: SyncHistoryIndex;
+
+    setup(() => {
+        index = { snapshots: [] };
+    });
+
+    test('keeps a bounded number of snapshots per master', () => {
+        assert.deepStrictEqual(addSnapshot(index, snapshot(DOOR, 'a', 1), 2), []);
+        assert.deepStrictEqual(addSnapshot(index, snapshot(LIFT, 'a', 2), 2), []);
+        assert.deepStrictEqual(addSnapshot(index, snapshot(DOOR, 'b', 3), 2), []);
+        // The content of hash a is still used by the lift
+        assert.deepStrictEqual(addSnapshot(index, snapshot(DOOR, 'c', 4), 2), []);
+        assert.deepStrictEqual(addSnapshot(index, snapshot(DOOR, 'd', 5), 2), ['b']);
+
+        assert.deepStrictEqual(snapshotsOf(index, DOOR).map((entry) => entry.hash), ['d', 'c']);
+        assert.deepStrictEqual(snapshotsOf(index, LIFT).map((entry) => entry.hash), ['a']);
+    });
+
+    test('updates the newest snapshot when the same content is written again', () => {
+        addSnapshot(index, snapshot(DOOR, 'a', 1), 5);
+        recordCompilation(index, SCRIPT_ID, { success: true, running: true });
+
+        const other = '22222222-2222-2222-2222-222222222222';
+        assert.deepStrictEqual(addSnapshot(index, snapshot(DOOR, 'a', 2, [other]), 5), []);
+
+        const [latest] = snapshotsOf(index, DOOR);
+        assert.strictEqual(index.snapshots.length, 1);
+        assert.strictEqual(latest.timestamp, 2);
+        assert.deepStrictEqual(latest.scriptIds, [SCRIPT_ID, other]);
+        assert.deepStrictEqual(Object.keys(latest.results), [SCRIPT_ID]);
+    });
+
+    test('attaches compile results to the newest snapshot of the script', () => {
+        addSnapshot(index, snapshot(DOOR, 'a', 1), 5);
+        addSnapshot(index, snapshot(DOOR, 'b', 2), 5);
+
+        const errors = [{ row: 3, column: 1, level: 'ERROR', message: 'Syntax error' }];
+        assert.strictEqual(recordCompilation(index, SCRIPT_ID, { success: false, running: false, errors })?.hash, 'b');
+        assert.strictEqual(recordCompilation(index, 'unknown', { success: true, running: true }), undefined);
+        assert.deepStrictEqual(snapshotsOf(index, DOOR)[1].results, {});
+    });
+
+    test('round-trips the index and rejects invalid content', () => {
+        addSnapshot(index, snapshot(DOOR, 'a', 1), 5);
+        recordCompilation(index, SCRIPT_ID, { success: true, running: false });
+        assert.deepStrictEqual(parseHistory(serializeHistory(index)), index);
+
+        assert.throws(() => parseHistory('{'), /Invalid JSON/);
+        assert.throws(
+            () => parseHistory(JSON.stringify({ snapshots: [{ ...snapshot(DOOR, 'a', 1), timestamp: 'now' }] })),
+            /snapshots\[0\]\.timestamp expected number/,
+        );
+    });
+});
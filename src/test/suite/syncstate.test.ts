@@ -0,0 +1,40 @@
+/**
+ * Tests for reading back the sync table saved in the workspace state
+ */
+
+import * as assert from 'assert';
+import { PersistedSync, parsePersistedSyncs } from '../../shared/syncstate';
+
+const saved: PersistedSync = {
+    master: '/work/door/main.lsl',
+    language: 'lsl',
+    scripts: [
+        { id: '11111111-1111-1111-1111-111111111111', viewerFile: '/tmp/sl_script_main_11111111.lsl', hash: 'abc' },
+        { id: '22222222-2222-2222-2222-222222222222', viewerFile: '/tmp/sl_script_main_22222222.lsl' },
+    ],
+};
+
+suite('Sync State', () => {
+    test('reads back saved syncs', () => {
+        assert.deepStrictEqual(parsePersistedSyncs(JSON.parse(JSON.stringify([saved]))), { syncs: [saved], problems: [] });
+    });
+
+    test('treats a missing table as empty', () => {
+        assert.deepStrictEqual(parsePersistedSyncs(undefined), { syncs: [], problems: [] });
+        assert.deepStrictEqual(parsePersistedSyncs({ syncs: [] }), { syncs: [], problems: ['expected a list of syncs'] });
+    });
+
+    test('drops invalid entries and keeps the rest', () => {
+        const result = parsePersistedSyncs([
+            { ...saved, scripts: [{ id: 'x' }] },
+            { ...saved, language: 'python' },
+            saved,
+        ]);
+
+        assert.deepStrictEqual(result.syncs, [saved]);
+        assert.deepStrictEqual(result.problems, [
+            'syncs[0].scripts[0].viewerFile is required',
+            'syncs[1].language python is not a script language',
+        ]);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for recording viewer traffic and reading recordings back for replay
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    TrafficRecorder,
+    TrafficRecord,
+    RecordedCalls,
+    parseRecording,
+    inboundMessages,
+} from '../../trafficrecorder';
+
+function record(direction: 'in' | 'out', message: any): TrafficRecord {
+    return { timestamp: '2025-01-01T00:00:00.000Z', direction, message };
+}
+
+suite('Traffic Recorder', () => {
+    let tempDir: string;
+
+    setup(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sl-traffic-test-'));
+    });
+
+    teardown(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('writes one timestamped record per line and reads them back', async () => {
+        const file = path.join(tempDir, TrafficRecorder.recordingFileName(new Date('2025-02-03T04:05:06.789Z')));
+        assert.strictEqual(path.basename(file), 'traffic-2025-02-03T04-05-06-789Z.jsonl');
+
+        const recorder = new TrafficRecorder(file, 'ws://localhost:9020');
+        recorder.record('in', { jsonrpc: '2.0', method: 'session.ok' });
+        recorder.record('out', { jsonrpc: '2.0', id: 1, method: 'language.syntax.id' });
+        await recorder.close();
+        recorder.record('in', { jsonrpc: '2.0', method: 'ignored.after.close' });
+
+        const content = await fs.promises.readFile(file, 'utf8');
+        assert.strictEqual(content.trim().split('\n').length, 2);
+
+        const records = parseRecording(content);
+        assert.deepStrictEqual(records.map(r => r.direction), ['in', 'out']);
+        assert.strictEqual(records[0].url, 'ws://localhost:9020');
+        assert.strictEqual(records[1].message.method, 'language.syntax.id');
+        assert.ok(!isNaN(Date.parse(records[0].timestamp)));
+    });
+
+    test('reports the line of a malformed record', () => {
+        const valid = JSON.stringify(record('in', { jsonrpc: '2.0', method: 'session.ok' }));
+
+        assert.strictEqual(parseRecording(`\n${valid}\n\n`).length, 1);
+        assert.throws(() => parseRecording(`${valid}\n{not json`), /line 2/);
+        assert.throws(() => parseRecording(`${valid}\n{"direction":"sideways","message":{}}`), /Line 2/);
+    });
+
+    test('separates viewer messages from replies to our calls', () => {
+        const records = [
+            record('in', { jsonrpc: '2.0', id: 'hs', method: 'session.handshake', params: {} }),
+            record('out', { jsonrpc: '2.0', id: 'hs', result: {} }),
+            record('in', { jsonrpc: '2.0', method: 'session.ok' }),
+            record('out', { jsonrpc: '2.0', id: 1, method: 'script.subscribe', params: { script_id: 'a' } }),
+            record('in', { jsonrpc: '2.0', id: 1, result: { success: true } }),
+            record('in', { jsonrpc: '2.0', method: 'script.compiled', params: { script_id: 'a', success: true } }),
+        ];
+
+        const methods = inboundMessages(records).map(r => r.message.method);
+        assert.deepStrictEqual(methods, ['session.handshake', 'session.ok', 'script.compiled']);
+    });
+
+    test('answers replayed calls with the recorded replies', () => {
+        const records = [
+            record('out', { jsonrpc: '2.0', id: 1, method: 'script.subscribe', params: { script_id: 'a' } }),
+            record('out', { jsonrpc: '2.0', id: 2, method: 'script.subscribe', params: { script_id: 'b' } }),
+            record('out', { jsonrpc: '2.0', id: 3, method: 'language.syntax.id' }),
+            record('in', { jsonrpc: '2.0', id: 2, result: { success: false, message: 'No modify permission' } }),
+            record('in', { jsonrpc: '2.0', id: 1, result: { success: true } }),
+            record('in', { jsonrpc: '2.0', id: 3, error: { code: -32601, message: 'Method not found' } }),
+        ];
+        const calls = new RecordedCalls(records);
+        assert.strictEqual(calls.remaining, 3);
+
+        // Parameters pick the matching reply regardless of order
+        assert.deepStrictEqual(calls.take('script.subscribe', { script_id: 'b' }),
+            { result: { success: false, message: 'No modify permission' } });
+        // Unknown parameters fall back to the next reply for the method
+        assert.deepStrictEqual(calls.take('script.subscribe', { script_id: 'zzz' }), { result: { success: true } });
+        assert.strictEqual(calls.take('script.subscribe', { script_id: 'a' }), undefined);
+
+        assert.deepStrictEqual(calls.take('language.syntax.id'),
+            { error: { code: -32601, message: 'Method not found' } });
+        assert.strictEqual(calls.remaining, 0);
+    });
+});
@@ -0,0 +1,318 @@
+/**
+ * End-to-end tests of ViewerEditWSClient and SynchService against the mock
+ * viewer. These need the VS Code extension host and run under `npm test`.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { MockViewer } from '../../server/mockviewer';
+import { JSONRPCCallError } from '../../websockclient';
+import {
+    ViewerEditWSClient,
+    CompilationResult,
+    SessionHandshake,
+    SessionHandshakeResponse,
+} from '../../viewereditwsclient';
+import { SynchService } from '../../synchservice';
+import { TrafficRecord } from '../../trafficrecorder';
+
+const EXTENSION_ID = 'lindenlab.sl-vscode-plugin';
+
+function waitUntil(predicate: () => boolean, timeoutMs: number = 5000): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const start = Date.now();
+        const timer = setInterval(() => {
+            if (predicate()) {
+                clearInterval(timer);
+                resolve();
+            } else if (Date.now() - start > timeoutMs) {
+                clearInterval(timer);
+                reject(new Error('Timed out waiting for condition'));
+            }
+        }, 20);
+    });
+}
+
+suite('Viewer Session (mock viewer)', () => {
+    let scriptDir: string;
+    let viewer: MockViewer;
+    const context = { subscriptions: [] as vscode.Disposable[] } as unknown as vscode.ExtensionContext;
+
+    suiteSetup(async () => {
+        // The clients read their settings through the extension's ConfigService
+        await vscode.extensions.getExtension(EXTENSION_ID)?.activate();
+    });
+
+    setup(async () => {
+        scriptDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sl-viewer-session-'));
+    });
+
+    teardown(async () => {
+        await viewer.stop();
+        await fs.promises.rm(scriptDir, { recursive: true, force: true });
+    });
+
+    test('ViewerEditWSClient completes a challenge handshake and exchanges messages', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir, challenge: true, syntaxId: 'e2e-syntax' });
+        const port = await viewer.start();
+        const script = await viewer.createScript('e2e', 'lsl');
+        viewer.onSave('e2e', [{ row: 1, column: 1, level: 'ERROR', message: 'boom' }]);
+
+        const client = new ViewerEditWSClient(context, `ws://localhost:${port}`);
+        const compiled: CompilationResult[] = [];
+        let sessionOk = false;
+        try {
+            client.setup({
+                onHandshake: (message: SessionHandshake): SessionHandshakeResponse => ({
+                    client_name: 'e2e',
+                    client_version: '1.0',
+                    protocol_version: '1.0',
+                    languages: ['lsl'],
+                    features: { live_sync: true },
+                    challenge_response: fs.readFileSync(message.challenge!, 'utf8'),
+                }),
+                onHandshakeOk: () => { sessionOk = true; },
+                onCompilationResult: (result: CompilationResult) => { compiled.push(result); },
+            });
+
+            await viewer.waitForSession();
+            await waitUntil(() => sessionOk);
+
+            const syntax = await client.call('language.syntax.id');
+            assert.strictEqual(syntax.id, 'e2e-syntax');
+
+            const subscribed = await client.call('script.subscribe', {
+                script_id: script.script_id,
+                script_name: 'e2e.lsl',
+                script_language: 'lsl',
+            });
+            assert.strictEqual(subscribed.success, true);
+
+            await fs.promises.writeFile(script.file!, 'default { }', 'utf8');
+            await waitUntil(() => compiled.length > 0);
+            assert.strictEqual(compiled[0].success, false);
+            assert.strictEqual(compiled[0].errors![0].message, 'boom');
+
+            const closed = new Promise(resolve => viewer.once('closed', resolve));
+            client.sendDisconnect(0, 'done');
+            assert.strictEqual((await viewer.waitFor('session.disconnect')).message, 'done');
+            await closed;
+        } finally {
+            client.dispose();
+        }
+    });
+
+    test('SynchService connects, reconnects after a drop and disconnects', async () => {
+        viewer = new MockViewer({ port: 9020, scriptDir, agentName: 'E2E Resident' });
+        await viewer.start();
+
+        const service = SynchService.getInstance();
+        assert.strictEqual(await service.connect(), true);
+        assert.strictEqual(service.getSessionState(), 'connected');
+        assert.strictEqual(service.getSessions().length, 1);
+        assert.strictEqual(service.getSessions()[0].agentName, 'E2E Resident');
+
+        // Speed up the backoff so the test does not wait for the defaults
+        service.getWebSocket()!.setAutoReconnect(true, 3, 100);
+        const reconnected = new Promise(resolve => viewer.once('session', resolve));
+        viewer.dropConnection();
+        await reconnected;
+        await waitUntil(() => service.getSessionState() === 'connected');
+
+        const closed = new Promise(resolve => viewer.once('closed', resolve));
+        assert.strictEqual(service.disconnect(), true);
+        await closed;
+        assert.strictEqual(service.getSessionState(), 'disconnected');
+        assert.strictEqual(service.isConnected(), false);
+    });
+
+    test('SynchService releases its sessions when disposed and does not reconnect', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const port = await viewer.start();
+
+        // A service of its own, the shared one stays usable for the other tests
+        const service: SynchService = new (SynchService as any)(context);
+        assert.strictEqual(await service.connect({ name: 'Disposed', host: 'localhost', port }), true);
+        service.getWebSocket()!.setAutoReconnect(true, 3, 50);
+
+        let sessions = 0;
+        viewer.on('session', () => sessions++);
+        service.dispose();
+        assert.strictEqual(service.getSessions().length, 0);
+        assert.strictEqual(service.isConnected(), false);
+
+        // Even when the viewer drops its end, nothing comes back
+        viewer.dropConnection();
+        await new Promise(resolve => setTimeout(resolve, 500));
+        assert.strictEqual(sessions, 0);
+    });
+
+    test('SynchService keeps a restored sync when its viewer document closes', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const port = await viewer.start();
+        const master = path.join(scriptDir, 'door.lsl');
+        const viewerFile = path.join(scriptDir, 'sl_script_door_0123456789abcdef0123456789abcdef.lsl');
+        await fs.promises.writeFile(master, 'default { }', 'utf8');
+        await fs.promises.writeFile(viewerFile, 'default { }', 'utf8');
+
+        const saved = [{ master, language: 'lsl', scripts: [{ id: '0123456789abcdef0123456789abcdef', viewerFile }] }];
+        const restoringContext = {
+            subscriptions: [],
+            workspaceState: { get: () => saved, update: () => Promise.resolve() },
+        } as unknown as vscode.ExtensionContext;
+        const service: SynchService = new (SynchService as any)(restoringContext);
+        try {
+            await service.connect({ name: 'Restoring', host: 'localhost', port });
+            await (service as any).restoreSyncs();
+            const sync = service.findSyncByTempFilePath(viewerFile);
+            assert.ok(sync, 'The sync should be restored');
+
+            // As VS Code does when it drops a document nobody looked at
+            const viewerDoc = await vscode.workspace.openTextDocument(vscode.Uri.file(viewerFile));
+            (service as any).onCloseTextDocument(viewerDoc);
+            assert.strictEqual(service.findSyncByTempFilePath(viewerFile), sync);
+            assert.strictEqual(service.findSyncByMasterFilePath(master), sync);
+        } finally {
+            service.dispose();
+        }
+    });
+
+    test('SynchService keeps one session per agent and routes scripts to their owner', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir, agentId: 'agent-main', agentName: 'Main Resident', acceptUnknownScripts: false });
+        const alt = new MockViewer({ port: 0, scriptDir, agentId: 'agent-alt', agentName: 'Alt Resident', acceptUnknownScripts: false });
+        const mainPort = await viewer.start();
+        const altPort = await alt.start();
+
+        const service = SynchService.getInstance();
+        try {
+            assert.strictEqual(await service.connect({ name: 'Main', host: 'localhost', port: mainPort }), true);
+            assert.strictEqual(await service.connect({ name: 'Alt', host: 'localhost', port: altPort }), true);
+            assert.deepStrictEqual(
+                service.getSessions().map(session => session.agentName),
+                ['Main Resident', 'Alt Resident'],
+            );
+
+            // Until a viewer claims the script there is no single owner
+            const script = await alt.createScript('alt_only', 'lsl');
+            assert.strictEqual(service.getScriptAgent(script.script_id), undefined);
+
+            alt.sendRuntimeDebug(script.script_id, 'hello');
+            await waitUntil(() => service.getScriptAgent(script.script_id) !== undefined);
+            assert.deepStrictEqual(service.getScriptAgent(script.script_id), {
+                agentId: 'agent-alt',
+                agentName: 'Alt Resident',
+            });
+            assert.strictEqual(service.getSessionForScript(script.script_id)?.endpoint.name, 'Alt');
+        } finally {
+            service.disconnect();
+            await alt.stop();
+        }
+        assert.strictEqual(service.getSessions().length, 0);
+    });
+
+    test('SynchService replays a recording without a viewer', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const at = (direction: 'in' | 'out', message: any): TrafficRecord =>
+            ({ timestamp: new Date().toISOString(), direction, message });
+        const records = [
+            at('in', {
+                jsonrpc: '2.0', id: 'hs', method: 'session.handshake',
+                params: { server_version: '1.0', protocol_version: '1.0', viewer_name: 'Recorded Viewer', viewer_version: '7.0',
+                    agent_id: 'agent-recorded', agent_name: 'Recorded Resident', languages: ['lsl'], syntax_id: 'recorded', features: {} },
+            }),
+            at('out', { jsonrpc: '2.0', id: 'hs', result: {} }),
+            at('in', { jsonrpc: '2.0', method: 'session.ok' }),
+            at('in', { jsonrpc: '2.0', method: 'runtime.debug', params: { script_id: 'recorded-script', object_id: 'o', object_name: 'Box', message: 'hi' } }),
+        ];
+
+        const service = SynchService.getInstance();
+        const states: string[] = [];
+        const listener = service.onSessionStateChange(state => states.push(state));
+        try {
+            const summary = await service.replayTraffic(records);
+            assert.strictEqual(summary.replayed, 3);
+            assert.ok(states.includes('connected'));
+            assert.strictEqual(service.getSessions().length, 0);
+            assert.strictEqual(service.getSessionState(), 'disconnected');
+        } finally {
+            listener.dispose();
+        }
+    });
+
+    test('ViewerEditWSClient times out, cancels and aborts calls on a dead viewer', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        viewer.stallMethod('language.syntax');
+        const port = await viewer.start();
+
+        const client = new ViewerEditWSClient(context, `ws://localhost:${port}`);
+        const failure = async (call: Promise<any>): Promise<JSONRPCCallError> => {
+            try {
+                await call;
+            } catch (error) {
+                assert.ok(error instanceof JSONRPCCallError);
+                return error;
+            }
+            assert.fail('Expected the call to be rejected');
+        };
+
+        try {
+            client.setup({
+                onHandshake: (): SessionHandshakeResponse => ({
+                    client_name: 'e2e', client_version: '1.0', protocol_version: '1.0', languages: ['lsl'], features: {},
+                }),
+            });
+            await viewer.waitForSession();
+            assert.strictEqual(client.getMethodTimeout('language.syntax.id'), 5000);
+
+            const timedOut = await failure(client.call('language.syntax', { kind: 'defs.lsl' }, { timeoutMs: 50 }));
+            assert.strictEqual(timedOut.failure, 'timeout');
+
+            const source = new vscode.CancellationTokenSource();
+            const cancelling = failure(client.call('language.syntax', { kind: 'defs.lsl' }, { token: source.token }));
+            source.cancel();
+            assert.strictEqual((await cancelling).failure, 'cancelled');
+
+            const aborting = failure(client.call('language.syntax', { kind: 'defs.lua' }));
+            assert.strictEqual(client.getPendingRequestCount(), 1);
+            viewer.dropConnection();
+            assert.strictEqual((await aborting).failure, 'closed');
+            assert.strictEqual(client.getPendingRequestCount(), 0);
+        } finally {
+            client.dispose();
+        }
+    });
+
+    test('ViewerEditWSClient rejects malformed viewer messages before their handlers', async () => {
+        viewer = new MockViewer({ port: 0, scriptDir });
+        const port = await viewer.start();
+
+        const client = new ViewerEditWSClient(context, `ws://localhost:${port}`);
+        const compiled: CompilationResult[] = [];
+        try {
+            client.setup({
+                onHandshake: (): SessionHandshakeResponse => ({
+                    client_name: 'e2e', client_version: '1.0', protocol_version: '1.0', languages: ['lsl'], features: {},
+                }),
+                onCompilationResult: (result: CompilationResult) => { compiled.push(result); },
+            });
+            await viewer.waitForSession();
+
+            // A request gets an INVALID_PARAMS error naming the field
+            await assert.rejects(
+                viewer.call('session.handshake', { viewer_name: 'Skewed' }),
+                /JSON-RPC Error -32602: Invalid params: params.server_version is required/,
+            );
+
+            // A notification is dropped, the next valid one still gets through
+            viewer.notify('script.compiled', { script_id: 'a', success: 'no', running: false });
+            viewer.notify('script.compiled', { script_id: 'b', success: true, running: true });
+            await waitUntil(() => compiled.length > 0);
+            assert.deepStrictEqual(compiled.map(result => result.script_id), ['b']);
+        } finally {
+            client.dispose();
+        }
+    });
+});
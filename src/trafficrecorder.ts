@@ -0,0 +1,160 @@
+/**
+ * @file trafficrecorder.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Records JSON-RPC traffic with the viewer to a JSONL file, one message per
+ * line, and reads such recordings back for replay.
+ */
+import * as fs from "fs";
+
+export type TrafficDirection = "in" | "out";
+
+/**
+ * One line of a recording. `in` is viewer to editor, `out` is editor to viewer.
+ */
+export interface TrafficRecord {
+    timestamp: string;
+    direction: TrafficDirection;
+    url?: string;
+    message: any;
+}
+
+/**
+ * A JSON-RPC reply taken from a recording, without its id.
+ */
+export type RecordedReply = { result?: any; error?: { code: number; message: string; data?: any } };
+
+/**
+ * Appends traffic records to a JSONL file
+ */
+export class TrafficRecorder {
+    private stream: fs.WriteStream;
+    private closed: boolean = false;
+
+    constructor(public readonly filePath: string, private readonly url?: string) {
+        this.stream = fs.createWriteStream(filePath, { flags: "a", encoding: "utf8" });
+        this.stream.on("error", (error) => {
+            console.warn(`Traffic recording to ${filePath} failed:`, error);
+            this.closed = true;
+        });
+    }
+
+    public record(direction: TrafficDirection, message: any): void {
+        if (this.closed) {
+            return;
+        }
+
+        const record: TrafficRecord = {
+            timestamp: new Date().toISOString(),
+            direction,
+            ...(this.url ? { url: this.url } : {}),
+            message,
+        };
+        this.stream.write(JSON.stringify(record) + "\n");
+    }
+
+    public close(): Promise<void> {
+        if (this.closed) {
+            return Promise.resolve();
+        }
+        this.closed = true;
+        return new Promise((resolve) => this.stream.end(() => resolve()));
+    }
+
+    /**
+     * A file name for a new recording, unique to the millisecond
+     */
+    public static recordingFileName(date: Date = new Date()): string {
+        return `traffic-${date.toISOString().replace(/[:.]/g, "-")}.jsonl`;
+    }
+}
+
+/**
+ * Parses the content of a recording, skipping blank lines.
+ * @throws Error naming the line of the first malformed record
+ */
+export function parseRecording(content: string): TrafficRecord[] {
+    const records: TrafficRecord[] = [];
+    const lines = content.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) {
+            continue;
+        }
+
+        let record: any;
+        try {
+            record = JSON.parse(line);
+        } catch (error) {
+            throw new Error(`Invalid JSON on line ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if ((record?.direction !== "in" && record?.direction !== "out") || typeof record.message !== "object") {
+            throw new Error(`Line ${i + 1} is not a traffic record`);
+        }
+        records.push(record as TrafficRecord);
+    }
+
+    return records;
+}
+
+function isResponse(message: any): boolean {
+    return message?.id !== undefined && message.method === undefined;
+}
+
+/**
+ * The viewer-originated requests and notifications of a recording, in
+ * order. Responses to our own calls are left out, they are handed out by
+ * RecordedCalls when the call is made again.
+ */
+export function inboundMessages(records: TrafficRecord[]): TrafficRecord[] {
+    return records.filter((record) => record.direction === "in" && !isResponse(record.message));
+}
+
+/**
+ * Pairs the calls the editor made in a recording with the replies the
+ * viewer sent, so that a replayed call gets the reply recorded for it.
+ */
+export class RecordedCalls {
+    private calls: { method: string; params: string; reply: RecordedReply }[] = [];
+
+    constructor(records: TrafficRecord[]) {
+        const replies = new Map<string | number, RecordedReply>();
+        for (const record of records) {
+            if (record.direction === "in" && isResponse(record.message)) {
+                const { result, error } = record.message;
+                replies.set(record.message.id, error !== undefined ? { error } : { result });
+            }
+        }
+
+        for (const record of records) {
+            const message = record.message;
+            if (record.direction === "out" && message?.method !== undefined && message.id !== undefined) {
+                const reply = replies.get(message.id);
+                if (reply) {
+                    this.calls.push({ method: message.method, params: JSON.stringify(message.params ?? null), reply });
+                }
+            }
+        }
+    }
+
+    /**
+     * Takes the first unused reply recorded for the method, preferring one
+     * whose call had the same parameters.
+     */
+    public take(method: string, params?: any): RecordedReply | undefined {
+        const key = JSON.stringify(params ?? null);
+        let index = this.calls.findIndex((call) => call.method === method && call.params === key);
+        if (index < 0) {
+            index = this.calls.findIndex((call) => call.method === method);
+        }
+        if (index < 0) {
+            return undefined;
+        }
+        return this.calls.splice(index, 1)[0].reply;
+    }
+
+    public get remaining(): number {
+        return this.calls.length;
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * @file trafficreplay.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ */
+import * as vscode from "vscode";
+import { ViewerEditWSClient } from "./viewereditwsclient";
+import { TrafficRecord, RecordedCalls, inboundMessages } from "./trafficrecorder";
+
+export interface ReplaySummary {
+    replayed: number;           // viewer messages delivered to the handlers
+    answered: number;           // calls answered from the recording
+    unanswered: string[];       // methods called with no recorded reply
+}
+
+/**
+ * Stands in for the viewer connection, delivering the viewer messages of a
+ * recording to the registered handlers. Calls made by the editor are
+ * answered with the replies recorded for them.
+ */
+export class ReplayWSClient extends ViewerEditWSClient {
+    private active: boolean = false;
+    private calls: RecordedCalls;
+    private readyResolve?: () => void;
+    private ready: Promise<void>;
+    private summary: ReplaySummary = { replayed: 0, answered: 0, unanswered: [] };
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private readonly records: TrafficRecord[],
+        private readonly delayMs: number = 10,
+    ) {
+        super(context, "replay://recording");
+        this.calls = new RecordedCalls(records);
+        this.ready = new Promise((resolve) => {
+            this.readyResolve = resolve;
+        });
+    }
+
+    public async connect(): Promise<{ success: boolean; message?: string }> {
+        if (this.isDisposed()) {
+            return { success: false, message: "Replay disposed" };
+        }
+        this.active = true;
+        this.readyResolve?.();
+        return { success: true };
+    }
+
+    public isConnected(): boolean {
+        return this.active && !this.isDisposed();
+    }
+
+    public disconnect(): void {
+        this.active = false;
+        // Lets a play() still waiting for the connection return
+        this.readyResolve?.();
+        super.disconnect();
+    }
+
+    public sendMessage(message: any): boolean {
+        if (!this.isConnected()) {
+            return false;
+        }
+
+        if (message?.method !== undefined && message.id !== undefined) {
+            const reply = this.calls.take(message.method, message.params);
+            if (reply) {
+                this.summary.answered++;
+            } else {
+                this.summary.unanswered.push(message.method);
+            }
+            // Answer asynchronously, as the viewer would
+            setTimeout(() => this.deliver({
+                jsonrpc: "2.0",
+                id: message.id,
+                ...(reply ?? { error: { code: -32603, message: `No recorded reply for ${message.method}` } }),
+            }), 0);
+        }
+        return true;
+    }
+
+    /**
+     * Delivers the recorded viewer messages in order once the client has
+     * been connected, pausing between them so async handlers can finish.
+     */
+    public async play(): Promise<ReplaySummary> {
+        await this.ready;
+        for (const record of inboundMessages(this.records)) {
+            if (!this.isConnected()) {
+                break;
+            }
+            this.deliver(record.message);
+            this.summary.replayed++;
+            await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+        }
+        return this.summary;
+    }
+
+    private deliver(message: any): void {
+        if (this.isConnected()) {
+            this.handleMessage(Buffer.from(JSON.stringify(message)));
+        }
+    }
+}
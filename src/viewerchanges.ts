@@ -0,0 +1,173 @@
+/**
+ * @file viewerchanges.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Review of edits made to a viewer copy outside VS Code, for example in the
+ * viewer's built-in editor. The changes traced back to the source files
+ * are shown as diffs against the sources before they are applied.
+ */
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { ReverseSyncResult, SourceEdit, applySourceEdits } from "./shared/reversesync";
+import { normalizePath } from "./interfaces/hostinterface";
+import { VSCodeHost, logInfo, logWarning, showInfoMessage, showWarningMessage } from "./utils";
+
+export const VIEWER_CHANGES_SCHEME = "sl-viewer-changes";
+
+export type ViewerChangesDecision = "applied" | "ignored";
+
+/**
+ * Serves the proposed content of source files as read-only documents, so
+ * they can be shown in a diff editor.
+ */
+export class ViewerChangesProvider implements vscode.TextDocumentContentProvider {
+    private static instance: ViewerChangesProvider;
+    private contents: Map<string, string> = new Map();
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+    public readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+    public static getInstance(): ViewerChangesProvider {
+        if (!ViewerChangesProvider.instance) {
+            ViewerChangesProvider.instance = new ViewerChangesProvider();
+        }
+        return ViewerChangesProvider.instance;
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? "";
+    }
+
+    public set(uri: vscode.Uri, content: string): void {
+        this.contents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+    }
+
+    public delete(uri: vscode.Uri): void {
+        this.contents.delete(uri.toString());
+    }
+}
+
+interface ProposedFile {
+    uri: vscode.Uri;
+    proposedUri: vscode.Uri;
+    current: string;
+    proposed: string;
+}
+
+async function readSource(uri: vscode.Uri): Promise<string> {
+    const open = vscode.workspace.textDocuments.find((doc) => doc.uri.fsPath === uri.fsPath);
+    return open ? open.getText() : fs.promises.readFile(uri.fsPath, "utf8");
+}
+
+async function proposeChanges(masterPath: string, result: ReverseSyncResult): Promise<ProposedFile[]> {
+    const host = new VSCodeHost();
+    const byFile = new Map<string, SourceEdit[]>();
+    for (const edit of result.edits) {
+        const file = edit.file === undefined ? normalizePath(masterPath) : host.uriToFileName(edit.file);
+        byFile.set(file, [...(byFile.get(file) ?? []), edit]);
+    }
+
+    const stamp = Date.now().toString();
+    const files: ProposedFile[] = [];
+    for (const [file, edits] of byFile) {
+        const uri = vscode.Uri.file(file);
+        const current = await readSource(uri);
+        const proposed = applySourceEdits(current, edits);
+        if (proposed !== current) {
+            const proposedUri = vscode.Uri.from({ scheme: VIEWER_CHANGES_SCHEME, path: uri.path, query: stamp });
+            files.push({ uri, proposedUri, current, proposed });
+        }
+    }
+    return files;
+}
+
+async function applyProposals(files: ProposedFile[]): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    for (const file of files) {
+        const document = await vscode.workspace.openTextDocument(file.uri);
+        const whole = new vscode.Range(
+            new vscode.Position(0, 0),
+            document.lineAt(document.lineCount - 1).range.end,
+        );
+        edit.replace(file.uri, whole, file.proposed);
+    }
+    return vscode.workspace.applyEdit(edit);
+}
+
+/**
+ * Offers the changes traced from a viewer copy for review. Applied changes
+ * are left unsaved in the source editors, saving them syncs the result
+ * back to the viewer.
+ */
+export async function reviewViewerChanges(
+    scriptName: string,
+    masterPath: string,
+    result: ReverseSyncResult,
+): Promise<ViewerChangesDecision> {
+    for (const change of result.unmapped) {
+        logWarning(
+            `Change to the viewer copy of ${scriptName} at line ${change.processedLine} not applied, ${change.reason}:\n${change.lines.join("\n")}`,
+        );
+    }
+
+    const files = await proposeChanges(masterPath, result);
+    if (files.length === 0) {
+        if (result.unmapped.length > 0) {
+            showWarningMessage(
+                `The viewer copy of ${scriptName} was changed, but the changes could not be traced to the sources. See the log for details.`,
+            );
+        }
+        return "ignored";
+    }
+
+    const provider = ViewerChangesProvider.getInstance();
+    for (const file of files) {
+        provider.set(file.proposedUri, file.proposed);
+    }
+
+    try {
+        const names = files.map((file) => path.basename(file.uri.fsPath)).join(", ");
+        const untraced = result.unmapped.length > 0
+            ? ` ${result.unmapped.length} change(s) could not be traced and are listed in the log.`
+            : "";
+        let choice = await showInfoMessage(
+            `The viewer copy of ${scriptName} was changed outside VS Code. Pull the changes into ${names}?${untraced}`,
+            "Review", "Apply", "Ignore",
+        );
+
+        if (choice === "Review") {
+            for (const file of files) {
+                await vscode.commands.executeCommand(
+                    "vscode.diff",
+                    file.uri,
+                    file.proposedUri,
+                    `${path.basename(file.uri.fsPath)} ↔ Viewer Changes`,
+                    { preview: false },
+                );
+            }
+            choice = await showInfoMessage(`Apply the viewer changes to ${names}?`, "Apply", "Ignore");
+        }
+
+        if (choice === "Apply") {
+            // Sources edited since the proposal was made would lose those edits
+            for (const file of files) {
+                if (await readSource(file.uri) !== file.current) {
+                    showWarningMessage(`${path.basename(file.uri.fsPath)} changed during the review, viewer changes not applied.`);
+                    return "ignored";
+                }
+            }
+            if (await applyProposals(files)) {
+                logInfo(`Applied viewer changes of ${scriptName} to ${names}`);
+                return "applied";
+            }
+            showWarningMessage(`Unable to apply the viewer changes of ${scriptName}.`);
+        }
+        return "ignored";
+    } finally {
+        for (const file of files) {
+            provider.delete(file.proposedUri);
+        }
+    }
+}
@@ -7,6 +7,8 @@ import { JSONRPCClient } from "./websockclient";
 import { ConfigService } from "./configservice";
 import { ConfigKey } from "./interfaces/configinterface";
 import { showStatusMessage } from "./utils";
+import { validateMessage } from "./shared/messageschema";
+import { VIEWER_MESSAGE_SCHEMAS } from "./viewermessageschemas";
 
 //#region Message Formats
 
@@ -105,6 +107,31 @@ export interface WebSocketHandlers {
     onConnectionClosed?: () => void;
 }
 
+/**
+ * A named viewer websocket endpoint, as configured in network.endpoints
+ */
+export interface ViewerEndpoint {
+    name: string;
+    host: string;
+    port: number;
+}
+
+export const DEFAULT_VIEWER_PORT = 9020;
+
+/**
+ * Timeouts (ms) for viewer methods whose replies take noticeably less, or
+ * more, time than the default. Overridden by network.requestTimeouts.
+ */
+export const DEFAULT_METHOD_TIMEOUTS: { [method: string]: number } = {
+    "language.syntax.id": 5000,
+    "language.syntax": 120000,
+    "script.subscribe": 10000,
+};
+
+export function endpointToUrl(endpoint: ViewerEndpoint): string {
+    return `ws://${endpoint.host}:${endpoint.port}`;
+}
+
 /**
  * Interface for client information used in handshake responses
  */
@@ -124,9 +151,31 @@ export class ViewerEditWSClient extends JSONRPCClient {
 
     constructor(
         context: vscode.ExtensionContext,
-        url: string = "ws://localhost:9020",
+        url: string = `ws://localhost:${DEFAULT_VIEWER_PORT}`,
     ) {
         super(context, url);
+
+        const config = ConfigService.getInstance();
+        this.setAutoReconnect(
+            config.getConfig<boolean>(ConfigKey.NetworkAutoReconnect) ?? true,
+            config.getConfig<number>(ConfigKey.NetworkMaxReconnectAttempts) ?? 10,
+        );
+
+        for (const [method, schema] of Object.entries(VIEWER_MESSAGE_SCHEMAS)) {
+            this.setParamsValidator(method, (params) => validateMessage(schema, params));
+        }
+
+        const timeouts = {
+            ...DEFAULT_METHOD_TIMEOUTS,
+            ...(config.getConfig<{ [method: string]: number }>(ConfigKey.NetworkRequestTimeouts) ?? {}),
+        };
+        for (const [method, timeout] of Object.entries(timeouts)) {
+            if (method === "default") {
+                this.setRequestTimeout(timeout);
+            } else {
+                this.setMethodTimeout(method, timeout);
+            }
+        }
     }
 
     public dispose(): void {
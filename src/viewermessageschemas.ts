@@ -0,0 +1,96 @@
+/**
+ * @file viewermessageschemas.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ *
+ * Runtime schemas for the messages the viewer sends, checked before the
+ * params reach any handler. See doc/Message_Interfaces.md.
+ */
+import type {
+    SessionHandshake,
+    SessionDisconnect,
+    ScriptUnsubscribe,
+    SyntaxChange,
+    CompilationError,
+    CompilationResult,
+    RuntimeDebug,
+    RuntimeError,
+} from "./viewereditwsclient";
+import { FieldSchema, MessageSchema } from "./shared/messageschema";
+
+const text: FieldSchema = { type: "string" };
+const optionalText: FieldSchema = { type: "string", optional: true };
+const integer: FieldSchema = { type: "number" };
+const flag: FieldSchema = { type: "boolean" };
+const textList: FieldSchema = { type: "array", items: text };
+const featureFlags: FieldSchema = { type: "object", values: flag };
+
+const SessionHandshakeSchema: MessageSchema<SessionHandshake> = {
+    server_version: text,
+    protocol_version: text,
+    viewer_name: text,
+    viewer_version: text,
+    agent_id: text,
+    agent_name: text,
+    languages: textList,
+    syntax_id: text,
+    features: featureFlags,
+    challenge: optionalText,
+};
+
+const SessionDisconnectSchema: MessageSchema<SessionDisconnect> = {
+    reason: integer,
+    message: text,
+};
+
+const ScriptUnsubscribeSchema: MessageSchema<ScriptUnsubscribe> = {
+    script_id: text,
+};
+
+const SyntaxChangeSchema: MessageSchema<SyntaxChange> = {
+    id: text,
+};
+
+const CompilationErrorSchema: MessageSchema<CompilationError> = {
+    row: integer,
+    column: integer,
+    level: text,
+    message: text,
+};
+
+const CompilationResultSchema: MessageSchema<CompilationResult> = {
+    script_id: text,
+    success: flag,
+    running: flag,
+    errors: { type: "array", optional: true, items: { type: "object", fields: CompilationErrorSchema } },
+};
+
+const RuntimeDebugSchema: MessageSchema<RuntimeDebug> = {
+    script_id: text,
+    object_id: text,
+    object_name: text,
+    message: text,
+};
+
+const RuntimeErrorSchema: MessageSchema<RuntimeError> = {
+    script_id: text,
+    object_id: text,
+    object_name: text,
+    message: text,
+    error: text,
+    line: integer,
+    stack: { type: "array", optional: true, items: text },
+};
+
+/**
+ * Schemas by method for every viewer message that carries params.
+ * session.ok has none and is not listed.
+ */
+export const VIEWER_MESSAGE_SCHEMAS: { [method: string]: MessageSchema<any> } = {
+    "session.handshake": SessionHandshakeSchema,
+    "session.disconnect": SessionDisconnectSchema,
+    "script.unsubscribe": ScriptUnsubscribeSchema,
+    "language.syntax.change": SyntaxChangeSchema,
+    "script.compiled": CompilationResultSchema,
+    "runtime.debug": RuntimeDebugSchema,
+    "runtime.error": RuntimeErrorSchema,
+};
@@ -0,0 +1,460 @@
+/**
+ * @file viewersession.ts
+ * Copyright (C) 2025, Linden Research, Inc.
+ */
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { ConfigService } from "./configservice";
+import { ConfigKey } from "./interfaces/configinterface";
+import {
+    ViewerEditWSClient,
+    ViewerEndpoint,
+    endpointToUrl,
+    CompilationResult,
+    SessionHandshake,
+    SessionHandshakeResponse,
+    SessionDisconnect,
+    ScriptSubscribe,
+    ScriptSubscribeResponse,
+    ScriptUnsubscribe,
+    SyntaxChange,
+    RuntimeDebug,
+    RuntimeError,
+    WebSocketHandlers,
+} from "./viewereditwsclient";
+import { ReconnectEvent } from "./websockclient";
+import { maybe } from "./shared/sharedutils";
+import { TrafficRecorder } from "./trafficrecorder";
+import { FeatureRegistry, FeatureFlags } from "./featureregistry";
+import {
+    showInfoMessage,
+    showStatusMessage,
+    showWarningMessage,
+    logInfo,
+    logWarning,
+} from "./utils";
+
+/** Lifecycle of a viewer session as seen by the status bar and commands. */
+export type SessionState = "disconnected" | "connecting" | "handshaking" | "connected";
+
+export type SubscriptionResult = { scriptId: string; scriptName: string; success: boolean; message?: string };
+
+/**
+ * Callbacks from a session to its owner. The session only keeps track of
+ * the connection itself, everything script related is handed over.
+ */
+export interface ViewerSessionHandlers {
+    onStateChange: (session: ViewerSession) => void;
+    onSessionOk: (session: ViewerSession, restoring: boolean) => void;
+    onScriptUnsubscribe: (session: ViewerSession, message: ScriptUnsubscribe) => void;
+    onSyntaxChange: (session: ViewerSession, message: SyntaxChange) => void;
+    onCompilationResult: (session: ViewerSession, message: CompilationResult) => void;
+    onRuntimeDebug: (session: ViewerSession, message: RuntimeDebug) => void;
+    onRuntimeError: (session: ViewerSession, message: RuntimeError) => void;
+}
+
+/**
+ * A connection to one running viewer, along with what the viewer told us
+ * about itself and its logged in agent during the handshake.
+ */
+export class ViewerSession implements vscode.Disposable {
+    private websocket: ViewerEditWSClient | undefined;
+    private handshakeResolve?: (value: boolean, message?: string) => void;
+    private handshakePromise?: Promise<{ success: boolean; message: string }>;
+    private state: SessionState = "disconnected";
+    private reconnecting: boolean = false;
+    private clientFeatures?: FeatureFlags;
+    private negotiatedFeatures: Set<string> = new Set();
+    private subscribedIds: Set<string> = new Set();
+
+    public viewerName?: string;
+    public viewerVersion?: string;
+    public viewerLanguages?: string[];
+    public viewerFeatures?: { [feature: string]: boolean };
+    public syntaxId?: string;
+    public agentId?: string;
+    public agentName?: string;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        public readonly endpoint: ViewerEndpoint,
+        private readonly handlers: ViewerSessionHandlers,
+        private readonly createSocket: (url: string) => Promise<ViewerEditWSClient> = (url) => this.openSocket(url),
+    ) {}
+
+    dispose(): void {
+        this.disconnect("Session closed");
+    }
+
+    //====================================================================
+    //#region Connection management
+    /**
+     * Opens the websocket and waits for the handshake to complete.
+     */
+    public async connect(): Promise<boolean> {
+        if (this.isHandshaking()) {
+            // A connection attempt is already under way, share its outcome
+            return (await this.getHandshakePromise()).success;
+        }
+        if (this.isConnected()) {
+            return true;
+        }
+
+        const handlers: WebSocketHandlers = {
+            onHandshake: (message: SessionHandshake): any => this.onHandshake(message),
+            onHandshakeOk: (): any => this.onHandshakeOk(),
+            onDisconnect: (message: SessionDisconnect): any => this.onDisconnect(message),
+            onUnsubscribe: (message: ScriptUnsubscribe): any => {
+                this.subscribedIds.delete(message.script_id);
+                this.handlers.onScriptUnsubscribe(this, message);
+            },
+            onSyntaxChange: (message: SyntaxChange): any => {
+                this.syntaxId = message.id;
+                this.handlers.onSyntaxChange(this, message);
+            },
+            onCompilationResult: (message: CompilationResult): any => this.handlers.onCompilationResult(this, message),
+            onRuntimeDebug: (message: RuntimeDebug): any => this.handlers.onRuntimeDebug(this, message),
+            onRuntimeError: (message: RuntimeError): any => this.handlers.onRuntimeError(this, message),
+            onConnectionClosed: (): any => {
+                if (this.websocket === socket) {
+                    this.onConnectionClosed();
+                }
+            },
+        };
+
+        const handshake = this.getHandshakePromise();
+        showStatusMessage(`Connecting to Second Life viewer (${this.endpoint.name})...`, handshake);
+
+        this.setState("connecting");
+        logInfo(`Connecting to viewer endpoint ${this.endpoint.name} at ${this.getUrl()}`);
+        const socket = await this.createSocket(this.getUrl());
+        this.websocket = socket;
+        socket.onConnectionChange((change) => {
+            if (this.websocket === socket) {
+                if (change.connected) {
+                    this.setState("handshaking");
+                } else {
+                    this.onConnectionClosed();
+                }
+            }
+        });
+        socket.onReconnect((event) => {
+            if (this.websocket === socket) {
+                this.onReconnect(event);
+            }
+        });
+        socket.setup(handlers);
+        const connected = await socket.connect();
+
+        if (!connected.success) {
+            this.setState("disconnected");
+            showWarningMessage(
+                `Second Life session failed to connect to ${this.endpoint.name}: ${connected.message}`,
+            );
+            // we need to also trigger the handshake promise to close the status message.
+            this.handshakeResolve?.(false, connected.message);
+            return false;
+        }
+
+        const results = await handshake;
+        if (!results.success) {
+            showWarningMessage(
+                `Second Life session failed to connect to ${this.endpoint.name}: ${results.message}`,
+            );
+        }
+
+        return results.success;
+    }
+
+    /**
+     * Sends a session.disconnect to the viewer and releases the connection.
+     * The socket says goodbye and is disposed in the background so that a
+     * new connection can start right away.
+     */
+    public disconnect(message: string = "Disconnected by user"): boolean {
+        const socket = this.websocket;
+        if (!socket) {
+            return false;
+        }
+        this.websocket = undefined;
+        // The viewer closing its end after the goodbye is not a drop
+        socket.setAutoReconnect(false);
+
+        const wasConnected = socket.isConnected();
+        this.handshakeResolve?.(false, message);
+        if (wasConnected) {
+            socket.sendDisconnect(0, message);
+        }
+        this.clearSessionInfo();
+        this.setState("disconnected");
+
+        const disposeDelay =
+            ConfigService.getInstance().getConfig<number>(ConfigKey.NetworkDisposeDelayMs) ?? 1000;
+        setTimeout(() => socket.dispose(), disposeDelay);
+        return wasConnected;
+    }
+
+    public isConnected(): boolean {
+        return !!this.websocket && this.websocket.isConnected();
+    }
+
+    // Creates the viewer connection, recording its traffic when enabled
+    private async openSocket(url: string): Promise<ViewerEditWSClient> {
+        const socket = new ViewerEditWSClient(this.context, url);
+        if (ConfigService.getInstance().getConfig<boolean>(ConfigKey.NetworkRecordTraffic)) {
+            try {
+                const directory = await ConfigService.getRecordingsPath();
+                const file = path.join(directory.fsPath, TrafficRecorder.recordingFileName());
+                socket.startRecording(file);
+                logInfo(`Recording viewer traffic for ${this.endpoint.name} to ${file}`);
+            } catch (error) {
+                logWarning(`Unable to record viewer traffic: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        return socket;
+    }
+
+    /** True once session.ok has been received on the current connection. */
+    public isEstablished(): boolean {
+        return this.state === "connected" && this.isConnected();
+    }
+
+    public getState(): SessionState {
+        return this.state;
+    }
+
+    public getUrl(): string {
+        return endpointToUrl(this.endpoint);
+    }
+
+    public getWebSocket(): ViewerEditWSClient | undefined {
+        return this.websocket;
+    }
+
+    public getHandshakePromise(): Promise<{
+        success: boolean;
+        message?: string;
+    }> {
+        if (!this.handshakePromise) {
+            this.handshakePromise = new Promise((resolve) => {
+                this.handshakeResolve = (value: boolean, message?: string): void =>
+                    resolve({
+                        success: value,
+                        message: message || (value ? "Connected" : "Failed to connect"),
+                    });
+            });
+            this.handshakePromise.then((_result) => {
+                this.handshakePromise = undefined;
+                this.handshakeResolve = undefined;
+            });
+        }
+        return this.handshakePromise;
+    }
+
+    public isHandshaking(): boolean {
+        return !!this.handshakeResolve;
+    }
+
+    private setState(state: SessionState): void {
+        if (this.state !== state) {
+            this.state = state;
+            this.handlers.onStateChange(this);
+        }
+    }
+
+    private clearSessionInfo(): void {
+        this.viewerName = undefined;
+        this.viewerVersion = undefined;
+        this.viewerLanguages = undefined;
+        this.viewerFeatures = undefined;
+        this.clientFeatures = undefined;
+        this.negotiatedFeatures.clear();
+        this.syntaxId = undefined;
+        this.agentId = undefined;
+        this.agentName = undefined;
+        this.subscribedIds.clear();
+        this.reconnecting = false;
+    }
+
+    //#endregion
+
+    //====================================================================
+    //#region Session handlers
+    private async onHandshake(message: SessionHandshake): Promise<SessionHandshakeResponse> {
+        this.viewerName = message.viewer_name;
+        this.viewerVersion = message.viewer_version;
+        this.agentId = message.agent_id;
+        this.agentName = message.agent_name;
+        this.viewerLanguages = message.languages;
+        this.syntaxId = message.syntax_id;
+        this.viewerFeatures = message.features;
+        // Let listeners pick up the viewer and agent names
+        this.handlers.onStateChange(this);
+
+        let challengeResponse: string | undefined = undefined;
+        if (message.challenge) {
+            // The challenge is the name of a file, we just need to read the contents
+            // and return it to the server.
+            await fs.promises.readFile(message.challenge, 'utf8').then((data: string) => {
+                challengeResponse = data;
+                console.log("Received challenge from viewer:", message.challenge);
+            });
+        }
+
+        // Advertise what is declared and enabled here, and settle on what
+        // both sides support for the lifetime of this connection
+        const registry = FeatureRegistry.getInstance();
+        this.clientFeatures = registry.advertise();
+        this.negotiatedFeatures = new Set(registry.negotiate(message.features));
+        for (const { feature, reason } of registry.unavailable(message.features)) {
+            logInfo(`Feature ${feature} unavailable with ${this.endpoint.name}: ${reason}`);
+        }
+
+        const response: SessionHandshakeResponse = {
+            client_name: ConfigService.getInstance().getConfig<string>(ConfigKey.ClientName) || "sl-vscode-plugin",
+            client_version: "1.0",
+            protocol_version: "1.0",
+            ...maybe("challenge_response", challengeResponse),
+            languages: ["lsl", "luau"],
+            features: this.clientFeatures,
+        };
+        return response;
+    }
+
+    private onHandshakeOk(): void {
+        // Session established successfully
+        console.log(
+            `Session established with viewer ${this.viewerName} v${this.viewerVersion} for ${this.agentName}`,
+        );
+        showInfoMessage(
+            `Connected to Second Life viewer: ${this.viewerName} v${this.viewerVersion} (${this.agentName ?? this.endpoint.name})`,
+        );
+
+        this.setState("connected");
+        this.handshakeResolve?.(true, "Connected");
+
+        const restoring = this.reconnecting;
+        this.reconnecting = false;
+        this.handlers.onSessionOk(this, restoring);
+    }
+
+    private onDisconnect(params: SessionDisconnect): void {
+        const reason = params?.reason || 0;
+        const message = params?.message || "Session disconnected";
+
+        if (this.handshakeResolve) {
+            this.handshakeResolve(false, message);
+        } else {
+            showStatusMessage(
+                `Second Life session disconnected from viewer: ${message} (reason ${reason})`,
+            );
+        }
+
+        // Don't dispose immediately - let the connection close handler do the cleanup
+        // The websocket will be closed by the server, triggering our close handler
+    }
+
+    private onReconnect(event: ReconnectEvent): void {
+        if (event.exhausted) {
+            this.reconnecting = false;
+            logWarning(`Lost connection to Second Life viewer ${this.endpoint.name}, gave up after ${event.attempt} reconnection attempts`);
+            showWarningMessage("Lost connection to Second Life viewer. Use the Connect command to try again.");
+            this.setState("disconnected");
+            return;
+        }
+
+        this.reconnecting = true;
+        logInfo(
+            `Connection to Second Life viewer ${this.endpoint.name} lost, reconnecting in ${Math.round(event.delayMs / 1000)}s (attempt ${event.attempt}/${event.maxAttempts})`,
+        );
+        this.setState("connecting");
+    }
+
+    private onConnectionClosed(): void {
+        // A connection that drops before session.ok would otherwise leave the
+        // handshake pending forever.
+        this.handshakeResolve?.(false, "Connection closed");
+        this.subscribedIds.clear();
+        this.setState("disconnected");
+    }
+
+    //#endregion
+
+    //====================================================================
+    //#region Script subscriptions
+    public async subscribe(scriptId: string, scriptName: string, language: string): Promise<SubscriptionResult> {
+        const socket = this.websocket;
+        if (!socket || !this.isEstablished()) {
+            return { scriptId, scriptName, success: false, message: "Session not established" };
+        }
+
+        const subscribeMsg: ScriptSubscribe = {
+            script_id: scriptId,
+            script_name: scriptName,
+            script_language: language,
+        };
+        try {
+            const response: ScriptSubscribeResponse = await socket.call("script.subscribe", subscribeMsg);
+            if (response.success) {
+                this.subscribedIds.add(scriptId);
+            }
+            return { scriptId, scriptName, success: response.success, message: response.message };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { scriptId, scriptName, success: false, message };
+        }
+    }
+
+    public isSubscribed(scriptId: string): boolean {
+        return this.subscribedIds.has(scriptId);
+    }
+
+    public getSubscribedIds(): string[] {
+        return [...this.subscribedIds];
+    }
+
+    /**
+     * Features enabled on both the viewer and our side of the handshake.
+     */
+    public getNegotiatedFeatures(): string[] {
+        return [...this.negotiatedFeatures];
+    }
+
+    public hasFeature(feature: string): boolean {
+        return this.negotiatedFeatures.has(feature);
+    }
+
+    /**
+     * Status lines for the session, used by the session status log.
+     */
+    public describe(indent: string = "  "): string[] {
+        const status = this.websocket?.getStatus();
+        const lines: string[] = [];
+
+        lines.push(`${indent}Endpoint: ${this.endpoint.name} (${this.getUrl()})`);
+        lines.push(`${indent}State: ${this.state}`);
+        if (status) {
+            lines.push(`${indent}Reconnect attempts: ${status.reconnectAttempts}`);
+        }
+        const recording = this.websocket?.getRecordingPath();
+        if (recording) {
+            lines.push(`${indent}Recording: ${recording}`);
+        }
+
+        if (this.viewerName) {
+            lines.push(`${indent}Viewer: ${this.viewerName} v${this.viewerVersion ?? "unknown"}`);
+            lines.push(`${indent}Agent: ${this.agentName ?? "unknown"} (${this.agentId ?? "unknown"})`);
+            lines.push(`${indent}Syntax ID: ${this.syntaxId ?? "unknown"}`);
+            lines.push(`${indent}Languages: ${(this.viewerLanguages ?? []).join(", ") || "none"}`);
+            const negotiated = this.getNegotiatedFeatures();
+            lines.push(`${indent}Negotiated features: ${negotiated.length > 0 ? negotiated.join(", ") : "none"}`);
+        }
+
+        const subscribed = this.getSubscribedIds();
+        lines.push(`${indent}Subscribed script IDs: ${subscribed.length > 0 ? subscribed.join(", ") : "none"}`);
+        return lines;
+    }
+
+    //#endregion
+}
@@ -64,6 +64,9 @@
 
 import * as vscode from "vscode";
 import WebSocket from "ws";
+import { TrafficRecorder } from "./trafficrecorder";
+import { SchemaViolation } from "./shared/messageschema";
+import { logWarning } from "./utils";
 
 /**
  * JSON-RPC 2.0 message types
@@ -106,13 +109,38 @@ const JSONRPCErrorCodes = {
     SERVER_ERROR: -32000, // -32000 to -32099 are reserved for implementation-defined server errors
 } as const;
 
+/**
+ * Per call options for JSONRPCClient.call
+ */
+export interface CallOptions {
+    timeoutMs?: number;                 // overrides the method and default timeouts
+    token?: vscode.CancellationToken;   // rejects the call when cancellation is requested
+}
+
+export type CallFailure = "timeout" | "cancelled" | "closed" | "send" | "error";
+
+/**
+ * Rejection reason for a JSON-RPC call that did not produce a result
+ */
+export class JSONRPCCallError extends Error {
+    constructor(
+        message: string,
+        public readonly method: string,
+        public readonly failure: CallFailure,
+        public readonly code?: number,
+    ) {
+        super(message);
+        this.name = "JSONRPCCallError";
+    }
+}
+
 export interface JSONRPCInterface {
     // Connection / lifecycle (inherited from base WebSocket client)
     isConnected(): boolean;
     getStatus(): { connected: boolean; url: string; reconnectAttempts: number };
 
     // JSON-RPC specific
-    call(method: string, params?: any): Promise<any>;
+    call(method: string, params?: any, options?: CallOptions): Promise<any>;
     notify(method: string, params?: any): boolean;
 
     // Handler management
@@ -122,6 +150,16 @@ export interface JSONRPCInterface {
     clearHandlers?(): void;
 }
 
+/**
+ * Reconnection progress reported by WebsockClient.onReconnect
+ */
+export interface ReconnectEvent {
+    attempt: number;
+    maxAttempts: number;
+    delayMs: number;
+    exhausted: boolean;
+}
+
 //#region Base websocket client
 /**
  * WebSocket client for Second Life scripting extension
@@ -131,9 +169,12 @@ export class WebsockClient implements vscode.Disposable {
     private client: WebSocket | undefined;
     private disposed = false;
     private reconnectTimer: NodeJS.Timeout | undefined;
-    private reconnectInterval: number = 5000; // 5 seconds
+    private reconnectInterval: number = 5000; // 5 seconds, doubled on each attempt
+    private maxReconnectInterval: number = 60000; // 1 minute
     private maxReconnectAttempts: number = 10;
     private reconnectAttempts: number = 0;
+    private autoReconnect: boolean = false;
+    private hasConnected: boolean = false;
     private url: string;
     private isConnecting: boolean = false;
     protected context: vscode.ExtensionContext;
@@ -141,12 +182,16 @@ export class WebsockClient implements vscode.Disposable {
     connected: boolean;
     message?: string;
   }>();
+    private _onReconnect = new vscode.EventEmitter<ReconnectEvent>();
 
     public readonly onConnectionChange: vscode.Event<{
     connected: boolean;
     message?: string;
   }> = this._onConnectionChange.event;
 
+    /** Fires when a reconnection is scheduled, or when attempts are exhausted */
+    public readonly onReconnect: vscode.Event<ReconnectEvent> = this._onReconnect.event;
+
     constructor(
         context: vscode.ExtensionContext,
         url: string = "ws://localhost:9020",
@@ -200,6 +245,7 @@ export class WebsockClient implements vscode.Disposable {
 
             this.client.on("open", () => {
                 this.isConnecting = false;
+                this.hasConnected = true;
                 this.reconnectAttempts = 0;
                 console.log("WebSocket client connected successfully");
                 vscode.window.showInformationMessage("Connected to WebSocket server");
@@ -217,6 +263,7 @@ export class WebsockClient implements vscode.Disposable {
                     `WebSocket connection closed: ${code} - ${reason.toString()}`,
                 );
 
+                this.handleClose(reason.toString() || `Connection closed (${code})`);
                 this._onConnectionChange.fire({
                     connected: false,
                     message: reason.toString(),
@@ -224,9 +271,21 @@ export class WebsockClient implements vscode.Disposable {
                 if (connectingResolve) {
                     connectingResolve(false, reason.toString());
                 }
-                // if (!this.disposed && this.shouldReconnect()) {
-                //     this.scheduleReconnect();
-                // }
+                // Only retry connections that were established at least once,
+                // a viewer that was never there is reported back to the caller.
+                if (!this.disposed && this.autoReconnect && this.hasConnected) {
+                    if (this.shouldReconnect()) {
+                        this.scheduleReconnect();
+                    } else {
+                        console.warn(`Giving up reconnecting after ${this.reconnectAttempts} attempts`);
+                        this._onReconnect.fire({
+                            attempt: this.reconnectAttempts,
+                            maxAttempts: this.maxReconnectAttempts,
+                            delayMs: 0,
+                            exhausted: true,
+                        });
+                    }
+                }
             });
 
             this.client.on("error", (error: Error) => {
@@ -268,6 +327,12 @@ export class WebsockClient implements vscode.Disposable {
         }
     }
 
+    /**
+   * Called when the connection closes or is dropped, before listeners are told
+   */
+    protected handleClose(_reason: string): void {
+    }
+
     /**
    * Handles pong response from server
    */
@@ -344,15 +409,57 @@ export class WebsockClient implements vscode.Disposable {
         }
 
         this.reconnectAttempts++;
+        const delayMs = this.getReconnectDelay(this.reconnectAttempts);
         console.log(
-            `Scheduling reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${this.reconnectInterval}ms`,
+            `Scheduling reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delayMs}ms`,
         );
+        this._onReconnect.fire({
+            attempt: this.reconnectAttempts,
+            maxAttempts: this.maxReconnectAttempts,
+            delayMs,
+            exhausted: false,
+        });
 
         this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
             if (!this.disposed) {
                 this.connect();
             }
-        }, this.reconnectInterval);
+        }, delayMs);
+    }
+
+    /**
+   * Exponential backoff delay for the given (1-based) reconnection attempt
+   */
+    private getReconnectDelay(attempt: number): number {
+        return Math.min(
+            this.reconnectInterval * Math.pow(2, attempt - 1),
+            this.maxReconnectInterval,
+        );
+    }
+
+    /**
+   * Enables or disables automatic reconnection after an established connection drops
+   */
+    public setAutoReconnect(
+        enabled: boolean,
+        maxAttempts: number = this.maxReconnectAttempts,
+        baseIntervalMs: number = this.reconnectInterval,
+    ): void {
+        this.autoReconnect = enabled;
+        this.maxReconnectAttempts = maxAttempts;
+        this.reconnectInterval = baseIntervalMs;
+        if (!enabled && this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+    }
+
+    /**
+   * Whether a reconnection attempt is currently pending
+   */
+    public isReconnecting(): boolean {
+        return this.reconnectTimer !== undefined;
     }
 
     /**
@@ -367,6 +474,7 @@ export class WebsockClient implements vscode.Disposable {
 
             if (this.client) {
                 console.log("Disconnecting WebSocket client");
+                this.handleClose("Disconnected");
 
                 // Remove all listeners first to prevent handling events during close
                 this.client.removeAllListeners();
@@ -387,6 +495,7 @@ export class WebsockClient implements vscode.Disposable {
             }
 
             this.reconnectAttempts = 0;
+            this.hasConnected = false;
             this.isConnecting = false;
         } catch (error) {
             console.warn("Error during WebSocket disconnect:", error);
@@ -426,14 +535,17 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
     private pendingRequests = new Map<
     string | number,
     {
+      method: string;
       resolve: (value: any) => void;
       reject: (error: any) => void;
       timeout: NodeJS.Timeout;
+      cancellation?: vscode.Disposable;
     }
   >();
     private nextRequestId: number = 1;
-    //private requestTimeout: number = 30000; // 30 seconds
-    private requestTimeout: number = 300000; // 5 minutes TODO: Debbuging
+    private requestTimeout: number = 30000; // 30 seconds
+    // Timeouts for methods that need more, or less, than the default
+    private methodTimeouts = new Map<string, number>();
 
     // Unified handler registration - single map for both notifications and requests
     private methodHandlers = new Map<
@@ -441,6 +553,12 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
     (params?: any) => any | Promise<any> | void
   >();
 
+    // Opt-in recording of every message sent and received
+    private recorder: TrafficRecorder | undefined;
+
+    // Checks run on the params of inbound messages before their handler
+    private paramsValidators = new Map<string, (params: any) => SchemaViolation | undefined>();
+
     constructor(
         context: vscode.ExtensionContext,
         url: string = "ws://localhost:9020",
@@ -455,6 +573,7 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
         try {
             const message = JSON.parse(data.toString()) as JSONRPCMessage;
             console.log("Received JSON-RPC message:", message);
+            this.recorder?.record("in", message);
 
             if (this.isJSONRPCResponse(message)) {
                 this.handleJSONRPCResponse(message);
@@ -520,11 +639,15 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
 
         this.pendingRequests.delete(response.id);
         clearTimeout(pendingRequest.timeout);
+        pendingRequest.cancellation?.dispose();
 
         if (response.error) {
             pendingRequest.reject(
-                new Error(
+                new JSONRPCCallError(
                     `JSON-RPC Error ${response.error.code}: ${response.error.message}`,
+                    pendingRequest.method,
+                    "error",
+                    response.error.code,
                 ),
             );
         } else {
@@ -538,6 +661,10 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
             notification.params,
         );
 
+        if (!this.checkParams(notification.method, notification.params)) {
+            return;
+        }
+
         // Check for dynamically registered handlers
         const handler = this.methodHandlers.get(notification.method);
         if (handler) {
@@ -565,6 +692,10 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
         // For requests, id should not be undefined, but we need to handle it safely
         const requestId = request.id !== undefined ? request.id : null;
 
+        if (!this.checkParams(request.method, request.params, requestId)) {
+            return;
+        }
+
         // Check for dynamically registered handlers
         const handler = this.methodHandlers.get(request.method);
         if (handler) {
@@ -617,12 +748,40 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
     }
 
     /**
-   * Makes a JSON-RPC method call
+   * Runs the params validator for a method. Invalid requests are answered
+   * with INVALID_PARAMS, invalid notifications cannot be answered and are
+   * only logged. Either way the handler is not called.
    */
-    public async call(method: string, params?: any): Promise<any> {
+    private checkParams(method: string, params: any, requestId?: string | number | null): boolean {
+        const violation = this.paramsValidators.get(method)?.(params);
+        if (!violation) {
+            return true;
+        }
+
+        logWarning(`Rejected ${method} from ${this.getUrl()}: ${violation.field} ${violation.message}`);
+        if (requestId !== undefined) {
+            this.respondWithJSONRPCError(
+                requestId,
+                JSONRPCErrorCodes.INVALID_PARAMS,
+                `Invalid params: ${violation.field} ${violation.message}`,
+                { field: violation.field },
+            );
+        }
+        return false;
+    }
+
+    /**
+   * Makes a JSON-RPC method call. The call is rejected with a JSONRPCCallError
+   * when it times out, is cancelled or the connection closes first.
+   */
+    public async call(method: string, params?: any, options: CallOptions = {}): Promise<any> {
         return new Promise((resolve, reject) => {
+            if (options.token?.isCancellationRequested) {
+                reject(new JSONRPCCallError(`JSON-RPC request cancelled: ${method}`, method, "cancelled"));
+                return;
+            }
             if (!this.isConnected()) {
-                reject(new Error("WebSocket not connected"));
+                reject(new JSONRPCCallError("WebSocket not connected", method, "closed"));
                 return;
             }
 
@@ -634,21 +793,56 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
                 id,
             };
 
+            const timeoutMs = options.timeoutMs ?? this.getMethodTimeout(method);
             const timeout = setTimeout(() => {
-                this.pendingRequests.delete(id);
-                reject(new Error(`JSON-RPC request timeout for method: ${method}`));
-            }, this.requestTimeout);
+                this.rejectPendingRequest(id, new JSONRPCCallError(
+                    `JSON-RPC request timeout for method: ${method} after ${timeoutMs}ms`, method, "timeout"));
+            }, timeoutMs);
+            const cancellation = options.token?.onCancellationRequested(() => {
+                this.rejectPendingRequest(id, new JSONRPCCallError(
+                    `JSON-RPC request cancelled: ${method}`, method, "cancelled"));
+            });
 
-            this.pendingRequests.set(id, { resolve, reject, timeout });
+            this.pendingRequests.set(id, { method, resolve, reject, timeout, cancellation });
 
             if (!this.sendJSONRPCMessage(request)) {
-                this.pendingRequests.delete(id);
-                clearTimeout(timeout);
-                reject(new Error("Failed to send JSON-RPC request"));
+                this.rejectPendingRequest(id, new JSONRPCCallError(
+                    "Failed to send JSON-RPC request", method, "send"));
             }
         });
     }
 
+    private rejectPendingRequest(id: string | number, error: JSONRPCCallError): void {
+        const pending = this.pendingRequests.get(id);
+        if (!pending) {
+            return;
+        }
+        this.pendingRequests.delete(id);
+        clearTimeout(pending.timeout);
+        pending.cancellation?.dispose();
+        pending.reject(error);
+    }
+
+    /**
+   * Rejects every call still waiting for a reply
+   */
+    public rejectPendingRequests(reason: string, failure: CallFailure = "closed"): void {
+        for (const [id, pending] of [...this.pendingRequests]) {
+            this.rejectPendingRequest(id, new JSONRPCCallError(
+                `JSON-RPC request ${pending.method} aborted: ${reason}`, pending.method, failure));
+        }
+    }
+
+    public getPendingRequestCount(): number {
+        return this.pendingRequests.size;
+    }
+
+    protected handleClose(reason: string): void {
+        super.handleClose(reason);
+        // A closed socket will never deliver the replies
+        this.rejectPendingRequests(reason);
+    }
+
     /**
    * Sends a JSON-RPC notification
    */
@@ -666,7 +860,11 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
    * Sends a JSON-RPC message
    */
     private sendJSONRPCMessage(message: JSONRPCMessage): boolean {
-        return this.sendMessage(message);
+        const sent = this.sendMessage(message);
+        if (sent) {
+            this.recorder?.record("out", message);
+        }
+        return sent;
     }
 
     /**
@@ -720,6 +918,20 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
         }
     }
 
+    /**
+   * Registers a check for the params of an inbound method, undefined removes it
+   */
+    public setParamsValidator(
+        method: string,
+        validator: ((params: any) => SchemaViolation | undefined) | undefined,
+    ): void {
+        if (validator) {
+            this.paramsValidators.set(method, validator);
+        } else {
+            this.paramsValidators.delete(method);
+        }
+    }
+
     /**
    * Unified method to unregister handlers for both notifications and requests
    * @param method The method name to stop handling
@@ -756,6 +968,40 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
         return this.requestTimeout;
     }
 
+    /**
+   * Sets the timeout for calls to one method, undefined restores the default
+   */
+    public setMethodTimeout(method: string, timeout: number | undefined): void {
+        if (timeout === undefined) {
+            this.methodTimeouts.delete(method);
+        } else {
+            this.methodTimeouts.set(method, timeout);
+        }
+    }
+
+    public getMethodTimeout(method: string): number {
+        return this.methodTimeouts.get(method) ?? this.requestTimeout;
+    }
+
+    /**
+   * Starts recording all JSON-RPC traffic to a JSONL file, replacing any
+   * recording already in progress
+   */
+    public startRecording(filePath: string): void {
+        this.stopRecording();
+        this.recorder = new TrafficRecorder(filePath, this.getUrl());
+    }
+
+    public stopRecording(): Promise<void> {
+        const recorder = this.recorder;
+        this.recorder = undefined;
+        return recorder ? recorder.close() : Promise.resolve();
+    }
+
+    public getRecordingPath(): string | undefined {
+        return this.recorder?.filePath;
+    }
+
     /**
    * Disposes of the JSON-RPC client resources
    */
@@ -766,15 +1012,11 @@ export class JSONRPCClient extends WebsockClient implements JSONRPCInterface {
 
         try {
             // Clear all pending requests immediately with cancellation errors
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            for (const [_id, pending] of this.pendingRequests) {
-                clearTimeout(pending.timeout);
-                pending.reject(new Error("Client shutting down"));
-            }
-            this.pendingRequests.clear();
+            this.rejectPendingRequests("Client shutting down");
 
             // Clear all method handlers
             this.methodHandlers.clear();
+            this.stopRecording();
 
             // Call parent dispose (this will handle WebSocket cleanup)
             super.dispose();